@@ -0,0 +1,114 @@
+import type { QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { UserIdentity } from "convex/server";
+import { imageIdsOf } from "./images";
+
+/** What a user may do with a script: its owner, or the role it was shared with */
+export type ScriptRole = "owner" | Doc<"scriptShares">["role"];
+
+/** Shares are keyed by email, compared case-insensitively */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/** The user's role on the script, or null when they have no access */
+export async function getScriptRole(
+  ctx: QueryCtx,
+  script: Doc<"scripts">,
+  identity: UserIdentity
+): Promise<ScriptRole | null> {
+  if (script.userId === identity.subject) return "owner";
+  // Trashed scripts are only visible to their owner
+  if (!identity.email || script.deletedAt) return null;
+  const share = await ctx.db
+    .query("scriptShares")
+    .withIndex("by_script_email", (q) =>
+      q.eq("scriptId", script._id).eq("email", normalizeEmail(identity.email!))
+    )
+    .unique();
+  return share?.role ?? null;
+}
+
+/** Whether the user may see the script (trashed scripts only by their owner) */
+export async function canReadScript(
+  ctx: QueryCtx,
+  script: Doc<"scripts">,
+  identity: UserIdentity
+): Promise<boolean> {
+  return (await getScriptRole(ctx, script, identity)) !== null;
+}
+
+/** Whether the user may change the script's content */
+export async function canEditScript(
+  ctx: QueryCtx,
+  script: Doc<"scripts">,
+  identity: UserIdentity
+): Promise<boolean> {
+  if (script.deletedAt) return false;
+  const role = await getScriptRole(ctx, script, identity);
+  return role === "owner" || role === "editor";
+}
+
+/** Whether the user may comment on the script (and resolve threads) */
+export async function canCommentOnScript(
+  ctx: QueryCtx,
+  script: Doc<"scripts">,
+  identity: UserIdentity
+): Promise<boolean> {
+  if (script.deletedAt) return false;
+  const role = await getScriptRole(ctx, script, identity);
+  return role === "owner" || role === "editor" || role === "commenter";
+}
+
+/**
+ * The script a public share link points to, or null once the link is revoked
+ * or expired or the script is trashed
+ */
+export async function scriptForShareLink(
+  ctx: QueryCtx,
+  token: string
+): Promise<Doc<"scripts"> | null> {
+  const link = await ctx.db
+    .query("shareLinks")
+    .withIndex("by_token", (q) => q.eq("token", token))
+    .unique();
+  if (!link || (link.expiresAt !== undefined && link.expiresAt <= Date.now())) return null;
+  const script = await ctx.db.get(link.scriptId);
+  return script && !script.deletedAt ? script : null;
+}
+
+/**
+ * Whether the user may see an image: they uploaded it, they can read the
+ * script it was uploaded into, or they can read `viaScriptId` and that
+ * script shows the image (covers the uploader's other scripts the image was
+ * imported or restored into, and legacy uploads without an `images` row).
+ * That's safe because an image only gets into a script through someone who
+ * could already see it — see `usableImages`.
+ */
+export async function canReadImage(
+  ctx: QueryCtx,
+  storageId: Id<"_storage">,
+  identity: UserIdentity,
+  viaScriptId?: Id<"scripts">
+): Promise<boolean> {
+  const image = await ctx.db
+    .query("images")
+    .withIndex("by_storage", (q) => q.eq("storageId", storageId))
+    .unique();
+  if (image?.userId === identity.subject) return true;
+  if (image?.scriptId) {
+    const owner = await ctx.db.get(image.scriptId);
+    if (owner && (await canReadScript(ctx, owner, identity))) return true;
+  }
+  if (viaScriptId) {
+    const script = await ctx.db.get(viaScriptId);
+    if (
+      script &&
+      imageIdsOf(script.pairs).includes(storageId) &&
+      (await canReadScript(ctx, script, identity))
+    ) {
+      return true;
+    }
+  }
+  return false;
+}
@@ -0,0 +1,142 @@
+import { query, mutation } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import type { UserIdentity } from "convex/server";
+import { v, ConvexError } from "convex/values";
+import { canReadScript, canCommentOnScript } from "./access";
+
+/** Longest comment accepted, in characters */
+const MAX_BODY_LENGTH = 5000;
+
+function cleanBody(body: string): string {
+  const trimmed = body.trim();
+  if (!trimmed) throw new ConvexError("Write something first");
+  if (trimmed.length > MAX_BODY_LENGTH) throw new ConvexError("That comment is too long");
+  return trimmed;
+}
+
+/** The script, if the user may comment on it */
+async function commentableScript(ctx: MutationCtx, scriptId: Id<"scripts">, identity: UserIdentity) {
+  const script = await ctx.db.get(scriptId);
+  if (!script || !(await canCommentOnScript(ctx, script, identity))) throw new Error("Not found");
+  return script;
+}
+
+/** Comment threads on a script, oldest first, each with its replies */
+export const list = query({
+  args: { scriptId: v.id("scripts") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) return [];
+    const script = await ctx.db.get(args.scriptId);
+    if (!script || !(await canReadScript(ctx, script, identity))) return [];
+    const comments = await ctx.db
+      .query("comments")
+      .withIndex("by_script", (q) => q.eq("scriptId", args.scriptId))
+      .collect();
+
+    // The script owner may delete anyone's comments, others only their own
+    const isOwner = script.userId === identity.subject;
+    const view = (comment: (typeof comments)[number]) => ({
+      _id: comment._id,
+      authorName: comment.authorName,
+      body: comment.body,
+      createdAt: comment.createdAt,
+      canRemove: isOwner || comment.userId === identity.subject,
+    });
+    const roots = comments.filter((comment) => !comment.parentId);
+    return roots.map((root) => ({
+      ...view(root),
+      bubbleId: root.bubbleId ?? "",
+      side: root.side ?? "text",
+      range: root.range,
+      resolvedAt: root.resolvedAt,
+      replies: comments.filter((comment) => comment.parentId === root._id).map(view),
+    }));
+  },
+});
+
+/** Start a thread on a bubble */
+export const add = mutation({
+  args: {
+    scriptId: v.id("scripts"),
+    bubbleId: v.string(),
+    side: v.union(v.literal("text"), v.literal("visual")),
+    range: v.optional(v.object({ start: v.number(), end: v.number(), quote: v.string() })),
+    body: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Not authenticated");
+    await commentableScript(ctx, args.scriptId, identity);
+    return await ctx.db.insert("comments", {
+      scriptId: args.scriptId,
+      bubbleId: args.bubbleId,
+      side: args.side,
+      range: args.range,
+      userId: identity.subject,
+      authorName: identity.name ?? identity.email ?? "Someone",
+      body: cleanBody(args.body),
+      createdAt: Date.now(),
+    });
+  },
+});
+
+export const reply = mutation({
+  args: { parentId: v.id("comments"), body: v.string() },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Not authenticated");
+    const parent = await ctx.db.get(args.parentId);
+    if (!parent || parent.parentId) throw new Error("Not found");
+    await commentableScript(ctx, parent.scriptId, identity);
+    return await ctx.db.insert("comments", {
+      scriptId: parent.scriptId,
+      parentId: parent._id,
+      userId: identity.subject,
+      authorName: identity.name ?? identity.email ?? "Someone",
+      body: cleanBody(args.body),
+      createdAt: Date.now(),
+    });
+  },
+});
+
+/** Resolve a thread, or reopen it */
+export const setResolved = mutation({
+  args: { id: v.id("comments"), resolved: v.boolean() },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Not authenticated");
+    const thread = await ctx.db.get(args.id);
+    if (!thread || thread.parentId) throw new Error("Not found");
+    await commentableScript(ctx, thread.scriptId, identity);
+    await ctx.db.patch(args.id, args.resolved
+      ? { resolvedAt: Date.now(), resolvedBy: identity.subject }
+      : { resolvedAt: undefined, resolvedBy: undefined });
+  },
+});
+
+/** Delete a comment (by its author or the script owner); deleting a thread's root deletes its replies */
+export const remove = mutation({
+  args: { id: v.id("comments") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Not authenticated");
+    const comment = await ctx.db.get(args.id);
+    if (!comment) throw new Error("Not found");
+    const script = await ctx.db.get(comment.scriptId);
+    if (!script || (comment.userId !== identity.subject && script.userId !== identity.subject)) {
+      throw new Error("Not found");
+    }
+    if (!comment.parentId) {
+      const replies = await ctx.db
+        .query("comments")
+        .withIndex("by_parent", (q) => q.eq("parentId", comment._id))
+        .collect();
+      for (const reply of replies) {
+        await ctx.db.delete(reply._id);
+      }
+    }
+    await ctx.db.delete(args.id);
+  },
+});
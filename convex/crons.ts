@@ -0,0 +1,10 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+crons.daily("purge trash", { hourUTC: 3, minuteUTC: 0 }, internal.trash.purgeExpired);
+crons.daily("collect unreferenced images", { hourUTC: 4, minuteUTC: 0 }, internal.images.collectGarbage, {});
+crons.hourly("remove stale presence", { minuteUTC: 0 }, internal.presence.removeStale);
+
+export default crons;
@@ -0,0 +1,61 @@
+import { query, mutation } from "./_generated/server";
+import { v } from "convex/values";
+
+export const list = query({
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) return [];
+    const folders = await ctx.db
+      .query("folders")
+      .withIndex("by_user", (q) => q.eq("userId", identity.subject))
+      .collect();
+    return folders.sort((a, b) => a.name.localeCompare(b.name));
+  },
+});
+
+export const create = mutation({
+  args: { name: v.string() },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Not authenticated");
+    return await ctx.db.insert("folders", {
+      userId: identity.subject,
+      name: args.name.trim() || "Untitled folder",
+      createdAt: Date.now(),
+    });
+  },
+});
+
+export const rename = mutation({
+  args: { id: v.id("folders"), name: v.string() },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Not authenticated");
+    const existing = await ctx.db.get(args.id);
+    if (!existing || existing.userId !== identity.subject) {
+      throw new Error("Not found");
+    }
+    await ctx.db.patch(args.id, { name: args.name.trim() || existing.name });
+  },
+});
+
+/** Delete a folder — its scripts are kept and become unfiled */
+export const remove = mutation({
+  args: { id: v.id("folders") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Not authenticated");
+    const existing = await ctx.db.get(args.id);
+    if (!existing || existing.userId !== identity.subject) {
+      throw new Error("Not found");
+    }
+    const scripts = await ctx.db
+      .query("scripts")
+      .withIndex("by_folder", (q) => q.eq("folderId", args.id))
+      .collect();
+    for (const script of scripts) {
+      await ctx.db.patch(script._id, { folderId: undefined });
+    }
+    await ctx.db.delete(args.id);
+  },
+});
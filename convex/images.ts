@@ -1,26 +1,305 @@
-import { query, mutation } from "./_generated/server";
+import { query, mutation, internalMutation } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { UserIdentity } from "convex/server";
+import { internal } from "./_generated/api";
 import { v } from "convex/values";
+import { canReadImage, canEditScript, scriptForShareLink } from "./access";
+
+/**
+ * Uploads younger than this are never collected: the script referencing a
+ * fresh upload may not have been saved yet (saves are debounced, and an
+ * unsaved script only gets its id once created).
+ */
+export const GC_GRACE_MS = 24 * 60 * 60 * 1000;
+
+const GC_BATCH_SIZE = 100;
+
+/** Upload URLs expire after an hour, so an upload never comes later than this after its URL */
+const UPLOAD_URL_TTL_MS = 60 * 60 * 1000;
+
+export function imageIdsOf(pairs: Doc<"scripts">["pairs"]): string[] {
+  return pairs.flatMap((p) => (p.visual.imageId ? [p.visual.imageId] : []));
+}
+
+/**
+ * Every image the user's scripts (trashed ones included) and their saved
+ * versions point at. `excludeScriptId` leaves out a script being purged.
+ */
+export async function collectReferencedImages(
+  ctx: MutationCtx,
+  userId: string,
+  excludeScriptId?: Id<"scripts">
+): Promise<Set<string>> {
+  const referenced = new Set<string>();
+  const scripts = await ctx.db
+    .query("scripts")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+  for (const script of scripts) {
+    if (script._id === excludeScriptId) continue;
+    imageIdsOf(script.pairs).forEach((id) => referenced.add(id));
+    const versions = await ctx.db
+      .query("scriptVersions")
+      .withIndex("by_script", (q) => q.eq("scriptId", script._id))
+      .collect();
+    versions.forEach((version) => imageIdsOf(version.pairs).forEach((id) => referenced.add(id)));
+  }
+  return referenced;
+}
+
+/**
+ * Whether the script an image was uploaded into (or one of its versions)
+ * still shows it — covers uploads by an editor into a shared script, which
+ * the uploader's own scripts don't reference.
+ */
+export async function referencedByScript(
+  ctx: MutationCtx,
+  scriptId: Id<"scripts">,
+  storageId: string
+): Promise<boolean> {
+  const script = await ctx.db.get(scriptId);
+  if (!script) return false;
+  if (imageIdsOf(script.pairs).includes(storageId)) return true;
+  const versions = await ctx.db
+    .query("scriptVersions")
+    .withIndex("by_script", (q) => q.eq("scriptId", scriptId))
+    .collect();
+  return versions.some((version) => imageIdsOf(version.pairs).includes(storageId));
+}
+
+/**
+ * The images among `imageIds` the user may put into `target` (a script, or
+ * just its owner for one not created yet). The user must already see the
+ * image — anyone who can read a script can see its images, so without this
+ * check a script could pull in someone else's image by its storage id. And
+ * the script must be one `collectGarbage` looks at for that image: one of
+ * the uploader's own, or the one it was uploaded into. Legacy uploads
+ * without an `images` row pass when the user's own scripts or versions
+ * already show them.
+ */
+export async function usableImages(
+  ctx: MutationCtx,
+  identity: UserIdentity,
+  target: { _id?: Id<"scripts">; userId: string },
+  imageIds: Iterable<string>
+): Promise<Set<string>> {
+  const usable = new Set<string>();
+  let ownImages: Set<string> | null = null;
+  for (const id of new Set(imageIds)) {
+    const storageId = ctx.db.system.normalizeId("_storage", id);
+    if (!storageId) continue;
+    const row = await ctx.db
+      .query("images")
+      .withIndex("by_storage", (q) => q.eq("storageId", storageId))
+      .unique();
+    if (row) {
+      const collectable = row.userId === target.userId || row.scriptId === target._id;
+      if (collectable && (await canReadImage(ctx, storageId, identity))) usable.add(id);
+      continue;
+    }
+    ownImages ??= await collectReferencedImages(ctx, identity.subject);
+    if (ownImages.has(id)) usable.add(id);
+  }
+  return usable;
+}
+
+/** Throws unless the user may put into `target` every image `pairs` shows that `previous` didn't */
+export async function assertCanAddImages(
+  ctx: MutationCtx,
+  identity: UserIdentity,
+  target: { _id?: Id<"scripts">; userId: string },
+  pairs: Doc<"scripts">["pairs"],
+  previous: Doc<"scripts">["pairs"] = []
+) {
+  const before = new Set(imageIdsOf(previous));
+  const added = imageIdsOf(pairs).filter((id) => !before.has(id));
+  const usable = await usableImages(ctx, identity, target, added);
+  if (added.some((id) => !usable.has(id))) throw new Error("Not found");
+}
+
+/** Delete the stored file and its `images` row, if any */
+export async function deleteImage(ctx: MutationCtx, storageId: Id<"_storage">) {
+  const row = await ctx.db
+    .query("images")
+    .withIndex("by_storage", (q) => q.eq("storageId", storageId))
+    .unique();
+  if (row) await ctx.db.delete(row._id);
+  // Already gone (e.g. purged through another script) is fine
+  await ctx.storage.delete(storageId).catch(() => {});
+}
 
 export const generateUploadUrl = mutation({
   handler: async (ctx) => {
     const identity = await ctx.auth.getUserIdentity();
     if (!identity) throw new Error("Not authenticated");
+    const now = Date.now();
+    // Grants for URLs that have expired unused
+    const stale = await ctx.db
+      .query("uploadGrants")
+      .withIndex("by_user", (q) => q.eq("userId", identity.subject).lt("createdAt", now - UPLOAD_URL_TTL_MS))
+      .collect();
+    for (const grant of stale) {
+      await ctx.db.delete(grant._id);
+    }
+    await ctx.db.insert("uploadGrants", { userId: identity.subject, createdAt: now });
     return await ctx.storage.generateUploadUrl();
   },
 });
 
+/**
+ * Record who uploaded an image, and into which script — called right after
+ * the upload. The caller must have been issued an upload URL (and not yet
+ * used it) in the hour before the file was stored; the grant is used up.
+ */
+export const registerUpload = mutation({
+  args: {
+    storageId: v.id("_storage"),
+    scriptId: v.optional(v.id("scripts")),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Not authenticated");
+    const existing = await ctx.db
+      .query("images")
+      .withIndex("by_storage", (q) => q.eq("storageId", args.storageId))
+      .unique();
+    if (existing) return;
+    const file = await ctx.db.system.get(args.storageId);
+    if (!file) throw new Error("Not found");
+    const grant = await ctx.db
+      .query("uploadGrants")
+      .withIndex("by_user", (q) =>
+        q
+          .eq("userId", identity.subject)
+          .gte("createdAt", file._creationTime - UPLOAD_URL_TTL_MS)
+          .lte("createdAt", file._creationTime)
+      )
+      .first();
+    if (!grant) throw new Error("Not found");
+    await ctx.db.delete(grant._id);
+    if (args.scriptId) {
+      const script = await ctx.db.get(args.scriptId);
+      if (!script || !(await canEditScript(ctx, script, identity))) throw new Error("Not found");
+    }
+    await ctx.db.insert("images", {
+      storageId: args.storageId,
+      userId: identity.subject,
+      scriptId: args.scriptId,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * URL for an image the user may see. Pass the script it's shown in as
+ * `scriptId` so images reached through that script resolve too.
+ */
 export const getImageUrl = query({
-  args: { storageId: v.id("_storage") },
+  args: {
+    storageId: v.id("_storage"),
+    scriptId: v.optional(v.id("scripts")),
+    /** Public share link the image is viewed through — no sign-in needed */
+    shareToken: v.optional(v.string()),
+  },
   handler: async (ctx, args) => {
+    if (args.shareToken) {
+      const script = await scriptForShareLink(ctx, args.shareToken);
+      if (!script || !imageIdsOf(script.pairs).includes(args.storageId)) return null;
+      return await ctx.storage.getUrl(args.storageId);
+    }
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) return null;
+    if (!(await canReadImage(ctx, args.storageId, identity, args.scriptId))) {
+      return null;
+    }
     return await ctx.storage.getUrl(args.storageId);
   },
 });
 
+/**
+ * Mark an image removed. The file is kept until the trash is purged, so undo
+ * in the editor (which brings the reference back) still finds it. Only the
+ * uploader — or, for images without an ownership record, the owner of a
+ * script showing it — may remove an image.
+ */
 export const removeImage = mutation({
-  args: { storageId: v.id("_storage") },
+  args: {
+    storageId: v.id("_storage"),
+    scriptId: v.optional(v.id("scripts")),
+  },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
     if (!identity) throw new Error("Not authenticated");
-    await ctx.storage.delete(args.storageId);
+    const now = Date.now();
+    const existing = await ctx.db
+      .query("images")
+      .withIndex("by_storage", (q) => q.eq("storageId", args.storageId))
+      .unique();
+    if (existing) {
+      if (existing.userId !== identity.subject) throw new Error("Not found");
+      await ctx.db.patch(existing._id, { deletedAt: now });
+      return;
+    }
+
+    const script = args.scriptId ? await ctx.db.get(args.scriptId) : null;
+    if (
+      !script ||
+      script.userId !== identity.subject ||
+      !imageIdsOf(script.pairs).includes(args.storageId)
+    ) {
+      throw new Error("Not found");
+    }
+    await ctx.db.insert("images", {
+      storageId: args.storageId,
+      userId: script.userId,
+      scriptId: script._id,
+      createdAt: now,
+      deletedAt: now,
+    });
+  },
+});
+
+/**
+ * Daily sweep (see crons.ts) deleting images no script or saved version
+ * references any more — left behind by deleting or merging pairs, splitting
+ * bubbles, or replacing an image. Only the uploader's scripts and the one the
+ * image was uploaded into need checking: no other script can take the image
+ * in (see `usableImages`). Images already marked removed are left to the
+ * trash purge.
+ */
+export const collectGarbage = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("images")
+      .paginate({ cursor: args.cursor ?? null, numItems: GC_BATCH_SIZE });
+
+    const cutoff = Date.now() - GC_GRACE_MS;
+    // Reference sets are built once per owner per batch
+    const referencedByUser = new Map<string, Set<string>>();
+    let collected = 0;
+    for (const image of result.page) {
+      if (image.deletedAt || image.createdAt > cutoff) continue;
+      let referenced = referencedByUser.get(image.userId);
+      if (!referenced) {
+        referenced = await collectReferencedImages(ctx, image.userId);
+        referencedByUser.set(image.userId, referenced);
+      }
+      if (
+        !referenced.has(image.storageId) &&
+        !(image.scriptId && (await referencedByScript(ctx, image.scriptId, image.storageId)))
+      ) {
+        await deleteImage(ctx, image.storageId);
+        collected++;
+      }
+    }
+    if (collected > 0) console.log(`Collected ${collected} unreferenced image(s)`);
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, internal.images.collectGarbage, {
+        cursor: result.continueCursor,
+      });
+    }
   },
 });
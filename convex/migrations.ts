@@ -0,0 +1,221 @@
+import { internalMutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { CURRENT_SCHEMA_VERSION } from "./validators";
+import { repairScript } from "../src/utils/validateScript";
+import { estimateDuration, getRuntime } from "../src/utils/timing";
+import type { Bubble, BubblePair } from "../src/types/script";
+import type { Id } from "./_generated/dataModel";
+import { imageIdsOf, GC_GRACE_MS } from "./images";
+
+/*
+ * Migrating existing documents to the validated `pairs` schema:
+ *
+ * 1. Deploy. If the push is rejected because an old document doesn't match
+ *    `pairsValidator`, deploy once with `schemaValidation: false` in
+ *    schema.ts instead.
+ * 2. Run `npx convex run migrations:backfillSchemaVersion`. It walks every
+ *    script in batches, coerces `pairs` into shape, repairs visual spans and
+ *    stamps `schemaVersion`.
+ * 3. Re-enable schema validation (if it was disabled) and deploy again.
+ *
+ * Scripts written before the library stored `runtimeSeconds` sort as
+ * zero-length by duration until `npx convex run migrations:backfillRuntime`
+ * has run once.
+ *
+ * Images uploaded before the `images` table existed are invisible to the
+ * garbage collector until `npx convex run migrations:backfillImages` has
+ * registered them; it also deletes stored files nothing references.
+ *
+ * Suggestions stored before ops were anchored to pair ids hold
+ * `insertFiller`/`splitVisualSpan` ops the schema no longer accepts: deploy
+ * once with `schemaValidation: false`, run
+ * `npx convex run migrations:dropPositionalSuggestions`, then deploy again
+ * with validation on.
+ */
+
+const BATCH_SIZE = 100;
+
+function asString(value: unknown, fallback = ""): string {
+  return typeof value === "string" ? value : fallback;
+}
+
+function coerceBubble(raw: unknown, side: "text" | "visual", index: number): Bubble {
+  const b = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const type = side === "text" && b.type === "filler" ? "filler" : "text";
+  const content = asString(b.content);
+  const fallbackDuration =
+    side === "visual" ? 0 : type === "filler" ? 1 : Math.max(estimateDuration(content), 0.5);
+  const bubble: Bubble = {
+    id: asString(b.id, `migrated-${side}-${index}`),
+    type,
+    content,
+    durationSeconds:
+      typeof b.durationSeconds === "number" && Number.isFinite(b.durationSeconds)
+        ? b.durationSeconds
+        : fallbackDuration,
+  };
+  if (b.manualDuration === true) bubble.manualDuration = true;
+  if (typeof b.imageId === "string") bubble.imageId = b.imageId;
+  return bubble;
+}
+
+/** Force whatever was stored under the old `v.any()` schema into `BubblePair[]` */
+function coercePairs(raw: unknown): BubblePair[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.map((item, i) => {
+    const p = (item && typeof item === "object" ? item : {}) as Record<string, unknown>;
+    const pair: BubblePair = {
+      id: asString(p.id, `migrated-pair-${i}`),
+      text: coerceBubble(p.text, "text", i),
+      visual: coerceBubble(p.visual, "visual", i),
+    };
+    if (typeof p.visualSpan === "number") pair.visualSpan = p.visualSpan;
+    return pair;
+  });
+}
+
+export const backfillSchemaVersion = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("scripts")
+      .paginate({ cursor: args.cursor ?? null, numItems: BATCH_SIZE });
+
+    for (const doc of result.page) {
+      if ((doc.schemaVersion ?? 0) >= CURRENT_SCHEMA_VERSION) continue;
+      const { script, issues } = repairScript({
+        title: doc.title,
+        totalDurationSeconds: doc.totalDurationSeconds,
+        pairs: coercePairs(doc.pairs),
+      });
+      if (issues.length > 0) {
+        console.log(`Repaired script ${doc._id}:`, issues.map((i) => i.message));
+      }
+      await ctx.db.patch(doc._id, {
+        pairs: script.pairs,
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        runtimeSeconds: getRuntime(script.pairs),
+      });
+    }
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.backfillSchemaVersion, {
+        cursor: result.continueCursor,
+      });
+    }
+  },
+});
+
+export const backfillRuntime = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("scripts")
+      .paginate({ cursor: args.cursor ?? null, numItems: BATCH_SIZE });
+
+    for (const doc of result.page) {
+      if (doc.runtimeSeconds !== undefined) continue;
+      await ctx.db.patch(doc._id, { runtimeSeconds: getRuntime(doc.pairs) });
+    }
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.backfillRuntime, {
+        cursor: result.continueCursor,
+      });
+    }
+  },
+});
+
+/**
+ * Register an `images` row for every image a script or version references,
+ * then delete stored files that have neither a row nor a reference. The
+ * storage pass only starts once every reference has been registered.
+ */
+export const backfillImages = internalMutation({
+  args: {
+    phase: v.optional(v.union(v.literal("scripts"), v.literal("versions"), v.literal("storage"))),
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const phase = args.phase ?? "scripts";
+    const cursor = args.cursor ?? null;
+
+    const register = async (imageId: string, userId: string, scriptId: Id<"scripts">) => {
+      // Malformed or legacy ids can't point at a stored file
+      const storageId = ctx.db.system.normalizeId("_storage", imageId);
+      if (!storageId) return;
+      const existing = await ctx.db
+        .query("images")
+        .withIndex("by_storage", (q) => q.eq("storageId", storageId))
+        .unique();
+      if (existing) return;
+      // Skip dangling references to files that are already gone
+      if (!(await ctx.db.system.get(storageId))) return;
+      await ctx.db.insert("images", {
+        storageId,
+        userId,
+        scriptId,
+        createdAt: Date.now(),
+      });
+    };
+
+    let result;
+    if (phase === "scripts") {
+      result = await ctx.db.query("scripts").paginate({ cursor, numItems: BATCH_SIZE });
+      for (const doc of result.page) {
+        for (const imageId of imageIdsOf(doc.pairs)) await register(imageId, doc.userId, doc._id);
+      }
+    } else if (phase === "versions") {
+      result = await ctx.db.query("scriptVersions").paginate({ cursor, numItems: BATCH_SIZE });
+      for (const doc of result.page) {
+        for (const imageId of imageIdsOf(doc.pairs)) await register(imageId, doc.userId, doc.scriptId);
+      }
+    } else {
+      result = await ctx.db.system.query("_storage").paginate({ cursor, numItems: BATCH_SIZE });
+      for (const file of result.page) {
+        // Fresh uploads may not be registered yet
+        if (file._creationTime > Date.now() - GC_GRACE_MS) continue;
+        const row = await ctx.db
+          .query("images")
+          .withIndex("by_storage", (q) => q.eq("storageId", file._id))
+          .unique();
+        if (!row) await ctx.storage.delete(file._id);
+      }
+    }
+
+    const next = !result.isDone
+      ? { phase, cursor: result.continueCursor }
+      : phase === "scripts"
+        ? { phase: "versions" as const, cursor: null }
+        : phase === "versions"
+          ? { phase: "storage" as const, cursor: null }
+          : null;
+    if (next) await ctx.scheduler.runAfter(0, internal.migrations.backfillImages, next);
+  },
+});
+
+/**
+ * Drop pending suggestions whose fillers or span splits were stored by
+ * position (`atIndex` / `atPairIndex`) — there's no telling which pair they
+ * meant any more. Ops are anchored to pair ids since.
+ */
+export const dropPositionalSuggestions = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("suggestions")
+      .paginate({ cursor: args.cursor ?? null, numItems: BATCH_SIZE });
+
+    for (const doc of result.page) {
+      const ops = doc.ops as unknown as Record<string, unknown>[];
+      if (ops.some((op) => "atIndex" in op || "atPairIndex" in op)) await ctx.db.delete(doc._id);
+    }
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.dropPositionalSuggestions, {
+        cursor: result.continueCursor,
+      });
+    }
+  },
+});
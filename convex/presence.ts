@@ -0,0 +1,129 @@
+import { query, mutation, internalMutation } from "./_generated/server";
+import type { QueryCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+import { canReadScript } from "./access";
+
+/** A session that hasn't sent a heartbeat for this long counts as gone */
+export const PRESENCE_TIMEOUT_MS = 30 * 1000;
+
+/** Rows of sessions gone this long are deleted by the hourly cleanup */
+const STALE_AFTER_MS = 60 * 60 * 1000;
+
+const CLEANUP_BATCH_SIZE = 100;
+
+async function activeSessions(ctx: QueryCtx, scriptId: Id<"scripts">) {
+  return await ctx.db
+    .query("presence")
+    .withIndex("by_script", (q) =>
+      q.eq("scriptId", scriptId).gt("updatedAt", Date.now() - PRESENCE_TIMEOUT_MS)
+    )
+    .collect();
+}
+
+/**
+ * Pairs another active session is editing. When two sessions claim the same
+ * pair, the earlier claim holds it.
+ */
+export async function lockedPairIds(
+  ctx: QueryCtx,
+  scriptId: Id<"scripts">,
+  sessionId: string | undefined
+): Promise<Set<string>> {
+  const holders = new Map<string, { sessionId: string; since: number }>();
+  for (const row of await activeSessions(ctx, scriptId)) {
+    if (!row.editingPairId) continue;
+    const since = row.editingSince ?? row.updatedAt;
+    const holder = holders.get(row.editingPairId);
+    if (!holder || since < holder.since) {
+      holders.set(row.editingPairId, { sessionId: row.sessionId, since });
+    }
+  }
+  const locked = new Set<string>();
+  holders.forEach((holder, pairId) => {
+    if (holder.sessionId !== sessionId) locked.add(pairId);
+  });
+  return locked;
+}
+
+/** Who else has the script open, and which pair each of them is editing */
+export const list = query({
+  args: { scriptId: v.id("scripts") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) return [];
+    const script = await ctx.db.get(args.scriptId);
+    if (!script || !(await canReadScript(ctx, script, identity))) return [];
+    const sessions = await activeSessions(ctx, args.scriptId);
+    return sessions.map((row) => ({
+      sessionId: row.sessionId,
+      userId: row.userId,
+      name: row.name,
+      editingPairId: row.editingPairId,
+      editingSince: row.editingSince,
+    }));
+  },
+});
+
+/** Called periodically by each open tab, and whenever it starts or stops editing a pair */
+export const heartbeat = mutation({
+  args: {
+    scriptId: v.id("scripts"),
+    sessionId: v.string(),
+    editingPairId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Not authenticated");
+    const script = await ctx.db.get(args.scriptId);
+    if (!script || !(await canReadScript(ctx, script, identity))) {
+      throw new Error("Not found");
+    }
+    const now = Date.now();
+    const existing = await ctx.db
+      .query("presence")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .unique();
+    if (existing && existing.userId !== identity.subject) throw new Error("Not found");
+
+    const sameClaim = existing?.scriptId === args.scriptId && existing.editingPairId === args.editingPairId;
+    const row = {
+      scriptId: args.scriptId,
+      userId: identity.subject,
+      sessionId: args.sessionId,
+      name: identity.name ?? identity.email ?? "Someone",
+      editingPairId: args.editingPairId,
+      editingSince: args.editingPairId ? (sameClaim ? existing.editingSince : now) : undefined,
+      updatedAt: now,
+    };
+    if (existing) await ctx.db.replace(existing._id, row);
+    else await ctx.db.insert("presence", row);
+  },
+});
+
+/** Called when a tab closes the script */
+export const leave = mutation({
+  args: { sessionId: v.string() },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) return;
+    const existing = await ctx.db
+      .query("presence")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .unique();
+    if (existing?.userId === identity.subject) await ctx.db.delete(existing._id);
+  },
+});
+
+/** Hourly cleanup (see crons.ts) of sessions that went away without leaving */
+export const removeStale = internalMutation({
+  handler: async (ctx) => {
+    const rows = await ctx.db
+      .query("presence")
+      .withIndex("by_updated", (q) => q.lt("updatedAt", Date.now() - STALE_AFTER_MS))
+      .take(CLEANUP_BATCH_SIZE);
+    for (const row of rows) {
+      await ctx.db.delete(row._id);
+    }
+  },
+});
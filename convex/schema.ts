@@ -1,13 +1,163 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
+import { pairsValidator, scriptOpValidator } from "./validators";
 
 export default defineSchema({
   scripts: defineTable({
     userId: v.string(),
     title: v.string(),
     totalDurationSeconds: v.number(),
-    pairs: v.any(),
+    pairs: pairsValidator,
+    /** Shape version of `pairs` — missing on documents written before validation */
+    schemaVersion: v.optional(v.number()),
+    /** Folder in the script library; unfiled when missing */
+    folderId: v.optional(v.id("folders")),
+    /** Sum of text durations, denormalized so the library can sort by it */
+    runtimeSeconds: v.optional(v.number()),
+    /** Bumped on every content write; `scripts.update` checks it to detect conflicting edits */
+    revision: v.optional(v.number()),
+    /** Set while the script is in the trash — see trash.ts */
+    deletedAt: v.optional(v.number()),
     createdAt: v.number(),
     updatedAt: v.number(),
+  })
+    .index("by_user", ["userId", "updatedAt"])
+    .index("by_user_title", ["userId", "title"])
+    .index("by_user_runtime", ["userId", "runtimeSeconds"])
+    .index("by_folder", ["folderId"])
+    .index("by_user_deleted", ["userId", "deletedAt"])
+    .index("by_deleted", ["deletedAt"])
+    .searchIndex("search_title", {
+      searchField: "title",
+      filterFields: ["userId", "folderId", "deletedAt"],
+    }),
+
+  /**
+   * Uploaded storyboard images and who owns them. Removal only marks them
+   * deleted until the trash is purged; unreferenced ones are garbage
+   * collected (see images.ts).
+   */
+  images: defineTable({
+    storageId: v.id("_storage"),
+    userId: v.string(),
+    /** Script the image was uploaded into (missing for uploads into an unsaved script) */
+    scriptId: v.optional(v.id("scripts")),
+    createdAt: v.number(),
+    deletedAt: v.optional(v.number()),
+  })
+    .index("by_storage", ["storageId"])
+    .index("by_deleted", ["deletedAt"]),
+
+  /**
+   * Upload URLs handed out, one row per URL until the upload is registered.
+   * Storage doesn't record who uploaded a file, so an upload can only be
+   * claimed by someone who was issued a URL shortly before it was stored.
+   */
+  uploadGrants: defineTable({
+    userId: v.string(),
+    createdAt: v.number(),
+  }).index("by_user", ["userId", "createdAt"]),
+
+  /** Groups of scripts in the library (one level, per user) */
+  folders: defineTable({
+    userId: v.string(),
+    name: v.string(),
+    createdAt: v.number(),
   }).index("by_user", ["userId"]),
+
+  /**
+   * Access to a script granted by its owner. Invitees are matched by email
+   * (normalized, see access.ts), so an invite works before they sign up.
+   */
+  scriptShares: defineTable({
+    scriptId: v.id("scripts"),
+    ownerId: v.string(),
+    /** Shown to the invitee in "Shared with me" */
+    ownerName: v.string(),
+    email: v.string(),
+    role: v.union(v.literal("viewer"), v.literal("commenter"), v.literal("editor")),
+    createdAt: v.number(),
+  })
+    .index("by_script_email", ["scriptId", "email"])
+    .index("by_email", ["email", "createdAt"]),
+
+  /**
+   * Public read-only links for people without an account. Anyone holding the
+   * token can view the script until the owner revokes the link (deleting the
+   * row) or it passes `expiresAt`.
+   */
+  shareLinks: defineTable({
+    scriptId: v.id("scripts"),
+    userId: v.string(),
+    token: v.string(),
+    createdAt: v.number(),
+    expiresAt: v.optional(v.number()),
+  })
+    .index("by_token", ["token"])
+    .index("by_script", ["scriptId", "createdAt"]),
+
+  /**
+   * Review comments. A thread starts with a root comment anchored to a text
+   * or visual bubble (and optionally a character range of its content);
+   * replies point at the root through `parentId`. Resolution lives on the root.
+   */
+  comments: defineTable({
+    scriptId: v.id("scripts"),
+    parentId: v.optional(v.id("comments")),
+    bubbleId: v.optional(v.string()),
+    side: v.optional(v.union(v.literal("text"), v.literal("visual"))),
+    /** Commented range of the bubble's content, with the text as it was then */
+    range: v.optional(v.object({ start: v.number(), end: v.number(), quote: v.string() })),
+    userId: v.string(),
+    authorName: v.string(),
+    body: v.string(),
+    createdAt: v.number(),
+    resolvedAt: v.optional(v.number()),
+    resolvedBy: v.optional(v.string()),
+  })
+    .index("by_script", ["scriptId", "createdAt"])
+    .index("by_parent", ["parentId", "createdAt"]),
+
+  /**
+   * Edits proposed in suggestion mode, kept as ops against the script until
+   * its owner accepts (applies) or rejects them — see suggestions.ts
+   */
+  suggestions: defineTable({
+    scriptId: v.id("scripts"),
+    userId: v.string(),
+    authorName: v.string(),
+    ops: v.array(scriptOpValidator),
+    createdAt: v.number(),
+  }).index("by_script", ["scriptId", "createdAt"]),
+
+  /**
+   * Who has a script open right now, one row per browser tab, kept fresh by
+   * heartbeats — see presence.ts. `editingPairId` doubles as a soft lock.
+   */
+  presence: defineTable({
+    scriptId: v.id("scripts"),
+    userId: v.string(),
+    sessionId: v.string(),
+    name: v.string(),
+    editingPairId: v.optional(v.string()),
+    /** When the session started editing `editingPairId` — the earliest claim holds the lock */
+    editingSince: v.optional(v.number()),
+    updatedAt: v.number(),
+  })
+    .index("by_script", ["scriptId", "updatedAt"])
+    .index("by_session", ["sessionId"])
+    .index("by_updated", ["updatedAt"]),
+
+  /** Point-in-time copies of a script — see versions.ts */
+  scriptVersions: defineTable({
+    scriptId: v.id("scripts"),
+    userId: v.string(),
+    title: v.string(),
+    totalDurationSeconds: v.number(),
+    pairs: pairsValidator,
+    /** auto = throttled snapshot on save, manual = "save version", restore = taken before a restore */
+    kind: v.union(v.literal("auto"), v.literal("manual"), v.literal("restore")),
+    label: v.optional(v.string()),
+    createdAt: v.number(),
+  }).index("by_script", ["scriptId", "createdAt"]),
 });
@@ -1,27 +1,136 @@
 import { query, mutation } from "./_generated/server";
-import { v } from "convex/values";
+import type { MutationCtx } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+import { paginationOptsValidator } from "convex/server";
+import type { UserIdentity } from "convex/server";
+import { v, ConvexError } from "convex/values";
+import { pairsValidator, scriptOpValidator, CURRENT_SCHEMA_VERSION } from "./validators";
+import type { ScriptOp } from "../src/types/script";
+import { repairScript } from "../src/utils/validateScript";
+import { getRuntime } from "../src/utils/timing";
+import { applyScriptOps, opPairId } from "../src/utils/scriptOps";
+import { maybeAutoSnapshot } from "./versions";
+import { canEditScript, getScriptRole } from "./access";
+import { lockedPairIds } from "./presence";
+import { imageIdsOf, assertCanAddImages, usableImages } from "./images";
 
+/**
+ * Apply ops to a stored script (plus any title/duration change), taking an
+ * autosave snapshot first. Bumps the revision, which is returned.
+ */
+export async function writeOps(
+  ctx: MutationCtx,
+  script: Doc<"scripts">,
+  ops: ScriptOp[],
+  meta: { title?: string; totalDurationSeconds?: number } = {}
+): Promise<number> {
+  const revision = (script.revision ?? 0) + 1;
+  const updates: Partial<Doc<"scripts">> = { updatedAt: Date.now(), revision };
+  if (meta.title !== undefined) updates.title = meta.title;
+  if (meta.totalDurationSeconds !== undefined) updates.totalDurationSeconds = meta.totalDurationSeconds;
+  if (ops.length > 0) {
+    await maybeAutoSnapshot(ctx, script);
+    const { pairs } = repairScript(applyScriptOps(script, ops)).script;
+    updates.pairs = pairs;
+    updates.runtimeSeconds = getRuntime(pairs);
+    updates.schemaVersion = CURRENT_SCHEMA_VERSION;
+  }
+  await ctx.db.patch(script._id, updates);
+  return revision;
+}
+
+/** Sort keys for the library, each backed by a `by_user*` index */
+const sortValidator = v.union(v.literal("updated"), v.literal("title"), v.literal("duration"));
+
+/** What the library needs per row — everything but `pairs` */
+function toListEntry(script: Doc<"scripts">) {
+  return {
+    _id: script._id,
+    title: script.title,
+    folderId: script.folderId,
+    totalDurationSeconds: script.totalDurationSeconds,
+    runtimeSeconds: script.runtimeSeconds ?? getRuntime(script.pairs),
+    createdAt: script.createdAt,
+    updatedAt: script.updatedAt,
+  };
+}
+
+/**
+ * One page of the user's scripts for the library. `folder` narrows to a
+ * folder (`null` = unfiled, omitted = all). A `search` term matches titles
+ * and returns results by relevance instead of `sort`.
+ */
 export const list = query({
-  handler: async (ctx) => {
+  args: {
+    paginationOpts: paginationOptsValidator,
+    sort: v.optional(sortValidator),
+    order: v.optional(v.union(v.literal("asc"), v.literal("desc"))),
+    search: v.optional(v.string()),
+    folder: v.optional(v.union(v.id("folders"), v.null())),
+  },
+  handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
-    if (!identity) return [];
+    if (!identity) return { page: [], isDone: true, continueCursor: "" };
     const userId = identity.subject;
+    const folderId = args.folder ?? undefined;
+
+    const search = args.search?.trim();
+    if (search) {
+      const result = await ctx.db
+        .query("scripts")
+        .withSearchIndex("search_title", (q) => {
+          const matches = q.search("title", search).eq("userId", userId).eq("deletedAt", undefined);
+          return args.folder === undefined ? matches : matches.eq("folderId", folderId);
+        })
+        .paginate(args.paginationOpts);
+      return { ...result, page: result.page.map(toListEntry) };
+    }
+
+    const scripts = ctx.db.query("scripts");
+    const indexed =
+      args.sort === "title"
+        ? scripts.withIndex("by_user_title", (q) => q.eq("userId", userId))
+        : args.sort === "duration"
+          ? scripts.withIndex("by_user_runtime", (q) => q.eq("userId", userId))
+          : scripts.withIndex("by_user", (q) => q.eq("userId", userId));
+    const ordered = indexed.order(args.order ?? (args.sort === "title" ? "asc" : "desc"));
+    const filtered = ordered.filter((q) =>
+      args.folder === undefined
+        ? q.eq(q.field("deletedAt"), undefined)
+        : q.and(q.eq(q.field("deletedAt"), undefined), q.eq(q.field("folderId"), folderId))
+    );
+    const result = await filtered.paginate(args.paginationOpts);
+    return { ...result, page: result.page.map(toListEntry) };
+  },
+});
+
+/** The most recently edited scripts, for quick switching from the menu */
+export const recent = query({
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) return [];
     const scripts = await ctx.db
       .query("scripts")
-      .withIndex("by_user", (q) => q.eq("userId", userId))
-      .collect();
-    return scripts.sort((a, b) => b.updatedAt - a.updatedAt);
+      .withIndex("by_user", (q) => q.eq("userId", identity.subject))
+      .order("desc")
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .take(args.limit ?? 5);
+    return scripts.map(toListEntry);
   },
 });
 
+/** A script the user owns or was shared, with their `role` on it */
 export const get = query({
   args: { id: v.id("scripts") },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
     if (!identity) return null;
     const script = await ctx.db.get(args.id);
-    if (!script || script.userId !== identity.subject) return null;
-    return script;
+    if (!script || script.deletedAt) return null;
+    const role = await getScriptRole(ctx, script, identity);
+    if (!role) return null;
+    return { ...script, role };
   },
 });
 
@@ -29,55 +138,167 @@ export const create = mutation({
   args: {
     title: v.string(),
     totalDurationSeconds: v.number(),
-    pairs: v.any(),
+    pairs: pairsValidator,
+    folderId: v.optional(v.id("folders")),
   },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
     if (!identity) throw new Error("Not authenticated");
+    if (args.folderId) {
+      const folder = await ctx.db.get(args.folderId);
+      if (!folder || folder.userId !== identity.subject) throw new Error("Not found");
+    }
     const now = Date.now();
+    // Same structural repair the client runs on load, so stored spans are always consistent
+    const { script } = repairScript(args);
+    await assertCanAddImages(ctx, identity, { userId: identity.subject }, script.pairs);
     return await ctx.db.insert("scripts", {
       userId: identity.subject,
       title: args.title,
       totalDurationSeconds: args.totalDurationSeconds,
-      pairs: args.pairs,
+      pairs: script.pairs,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      folderId: args.folderId,
+      runtimeSeconds: getRuntime(script.pairs),
+      revision: 0,
       createdAt: now,
       updatedAt: now,
     });
   },
 });
 
+/**
+ * Write changes to a script and return its new revision. With
+ * `baseRevision` (the revision the edit started from) the write is
+ * rejected with a CONFLICT error if someone else saved in between, so the
+ * client can merge instead of overwriting.
+ */
 export const update = mutation({
   args: {
     id: v.id("scripts"),
     title: v.optional(v.string()),
     totalDurationSeconds: v.optional(v.number()),
-    pairs: v.optional(v.any()),
+    pairs: v.optional(pairsValidator),
+    baseRevision: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
     if (!identity) throw new Error("Not authenticated");
     const existing = await ctx.db.get(args.id);
-    if (!existing || existing.userId !== identity.subject) {
+    if (!existing || !(await canEditScript(ctx, existing, identity))) {
       throw new Error("Not found");
     }
-    const updates: Record<string, unknown> = { updatedAt: Date.now() };
+    const revision = existing.revision ?? 0;
+    if (args.baseRevision !== undefined && args.baseRevision !== revision) {
+      throw new ConvexError({ code: "CONFLICT", revision });
+    }
+    const updates: Record<string, unknown> = { updatedAt: Date.now(), revision: revision + 1 };
     if (args.title !== undefined) updates.title = args.title;
     if (args.totalDurationSeconds !== undefined)
       updates.totalDurationSeconds = args.totalDurationSeconds;
-    if (args.pairs !== undefined) updates.pairs = args.pairs;
+    if (args.pairs !== undefined) {
+      await maybeAutoSnapshot(ctx, existing);
+      const { pairs } = repairScript({ ...existing, pairs: args.pairs }).script;
+      await assertCanAddImages(ctx, identity, existing, pairs, existing.pairs);
+      updates.pairs = pairs;
+      updates.runtimeSeconds = getRuntime(pairs);
+      updates.schemaVersion = CURRENT_SCHEMA_VERSION;
+    }
     await ctx.db.patch(args.id, updates);
+    return revision + 1;
+  },
+});
+
+/**
+ * The ops that don't bring in an image the user can't see, or that this
+ * script can't hold (see `usableImages`) — images already in it are fine
+ */
+export async function withoutForeignImages(
+  ctx: MutationCtx,
+  identity: UserIdentity,
+  script: Doc<"scripts">,
+  ops: ScriptOp[]
+): Promise<ScriptOp[]> {
+  const present = new Set(imageIdsOf(script.pairs));
+  const added = ops.flatMap((op) =>
+    op.type === "updateBubbleImage" && op.imageId && !present.has(op.imageId) ? [op.imageId] : []
+  );
+  if (added.length === 0) return ops;
+  const usable = await usableImages(ctx, identity, script, added);
+  return ops.filter(
+    (op) => op.type !== "updateBubbleImage" || !op.imageId || present.has(op.imageId) || usable.has(op.imageId)
+  );
+}
+
+/**
+ * Apply edits as operations on the latest stored pairs, so concurrent
+ * editors' changes combine instead of overwriting each other. Ops on a pair
+ * another session is editing (see presence.ts), or that would add an image
+ * the user can't see, are skipped; the result says how many, so the client
+ * can resync. Never conflicts — returns the new revision.
+ */
+export const applyOps = mutation({
+  args: {
+    id: v.id("scripts"),
+    ops: v.array(scriptOpValidator),
+    /** The editing tab, whose own pair locks don't apply */
+    sessionId: v.optional(v.string()),
+    title: v.optional(v.string()),
+    totalDurationSeconds: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Not authenticated");
+    const existing = await ctx.db.get(args.id);
+    if (!existing || !(await canEditScript(ctx, existing, identity))) {
+      throw new Error("Not found");
+    }
+    const locked = await lockedPairIds(ctx, args.id, args.sessionId);
+    const unlocked = (args.ops as ScriptOp[]).filter((op) => !locked.has(opPairId(op)));
+    const ops = await withoutForeignImages(ctx, identity, existing, unlocked);
+
+    const revision = await writeOps(ctx, existing, ops, {
+      title: args.title,
+      totalDurationSeconds: args.totalDurationSeconds,
+    });
+    return { revision, skipped: args.ops.length - ops.length };
+  },
+});
+
+/** File a script into a folder, or back to unfiled when `folderId` is omitted */
+export const move = mutation({
+  args: {
+    id: v.id("scripts"),
+    folderId: v.optional(v.id("folders")),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Not authenticated");
+    const existing = await ctx.db.get(args.id);
+    if (!existing || existing.userId !== identity.subject || existing.deletedAt) {
+      throw new Error("Not found");
+    }
+    if (args.folderId) {
+      const folder = await ctx.db.get(args.folderId);
+      if (!folder || folder.userId !== identity.subject) throw new Error("Not found");
+    }
+    await ctx.db.patch(args.id, { folderId: args.folderId });
   },
 });
 
+/**
+ * Move a script to the trash — it's purged for good after the retention
+ * period. Only the owner may; people it's shared with can leave the share.
+ */
 export const remove = mutation({
   args: { id: v.id("scripts") },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
     if (!identity) throw new Error("Not authenticated");
     const existing = await ctx.db.get(args.id);
-    if (!existing || existing.userId !== identity.subject) {
+    if (!existing || existing.userId !== identity.subject || existing.deletedAt) {
       throw new Error("Not found");
     }
-    await ctx.db.delete(args.id);
+    await ctx.db.patch(args.id, { deletedAt: Date.now() });
   },
 });
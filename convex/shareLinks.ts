@@ -0,0 +1,87 @@
+import { query, mutation } from "./_generated/server";
+import { v } from "convex/values";
+import { scriptForShareLink } from "./access";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Unguessable link token: 128 random bits, hex-encoded */
+function generateToken(): string {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** The script's public links, newest first — for its owner */
+export const list = query({
+  args: { scriptId: v.id("scripts") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) return [];
+    const script = await ctx.db.get(args.scriptId);
+    if (!script || script.userId !== identity.subject) return [];
+    const links = await ctx.db
+      .query("shareLinks")
+      .withIndex("by_script", (q) => q.eq("scriptId", args.scriptId))
+      .order("desc")
+      .collect();
+    return links.map((link) => ({
+      _id: link._id,
+      token: link.token,
+      createdAt: link.createdAt,
+      expiresAt: link.expiresAt,
+    }));
+  },
+});
+
+/** New public read-only link, optionally expiring after a number of days */
+export const create = mutation({
+  args: {
+    scriptId: v.id("scripts"),
+    expiresInDays: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Not authenticated");
+    const script = await ctx.db.get(args.scriptId);
+    if (!script || script.userId !== identity.subject || script.deletedAt) {
+      throw new Error("Not found");
+    }
+    const now = Date.now();
+    const token = generateToken();
+    await ctx.db.insert("shareLinks", {
+      scriptId: args.scriptId,
+      userId: identity.subject,
+      token,
+      createdAt: now,
+      expiresAt: args.expiresInDays ? now + args.expiresInDays * DAY_MS : undefined,
+    });
+    return token;
+  },
+});
+
+/** Revoke a link — anyone still holding it sees "link not available" */
+export const revoke = mutation({
+  args: { id: v.id("shareLinks") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Not authenticated");
+    const link = await ctx.db.get(args.id);
+    if (!link || link.userId !== identity.subject) throw new Error("Not found");
+    await ctx.db.delete(args.id);
+  },
+});
+
+/** The script behind a link, for viewing without signing in; null once the link is gone */
+export const view = query({
+  args: { token: v.string() },
+  handler: async (ctx, args) => {
+    const script = await scriptForShareLink(ctx, args.token);
+    if (!script) return null;
+    return {
+      title: script.title,
+      totalDurationSeconds: script.totalDurationSeconds,
+      pairs: script.pairs,
+      updatedAt: script.updatedAt,
+    };
+  },
+});
@@ -0,0 +1,140 @@
+import { query, mutation } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { v, ConvexError } from "convex/values";
+import { getRuntime } from "../src/utils/timing";
+import { normalizeEmail } from "./access";
+
+const roleValidator = v.union(v.literal("viewer"), v.literal("commenter"), v.literal("editor"));
+
+/** The script, if the signed-in user owns it and it isn't trashed */
+async function ownedScript(ctx: MutationCtx, scriptId: Id<"scripts">, userId: string) {
+  const script = await ctx.db.get(scriptId);
+  if (!script || script.userId !== userId || script.deletedAt) throw new Error("Not found");
+  return script;
+}
+
+/** Who the script is shared with — for its owner */
+export const list = query({
+  args: { scriptId: v.id("scripts") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) return [];
+    const script = await ctx.db.get(args.scriptId);
+    if (!script || script.userId !== identity.subject) return [];
+    const shares = await ctx.db
+      .query("scriptShares")
+      .withIndex("by_script_email", (q) => q.eq("scriptId", args.scriptId))
+      .collect();
+    return shares.map((share) => ({
+      _id: share._id,
+      email: share.email,
+      role: share.role,
+      createdAt: share.createdAt,
+    }));
+  },
+});
+
+/** Scripts other people shared with the signed-in user, newest share first */
+export const sharedWithMe = query({
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity?.email) return [];
+    const shares = await ctx.db
+      .query("scriptShares")
+      .withIndex("by_email", (q) => q.eq("email", normalizeEmail(identity.email!)))
+      .order("desc")
+      .collect();
+    const entries = [];
+    for (const share of shares) {
+      const script = await ctx.db.get(share.scriptId);
+      if (!script || script.deletedAt) continue;
+      entries.push({
+        _id: script._id,
+        title: script.title,
+        ownerName: share.ownerName,
+        role: share.role,
+        totalDurationSeconds: script.totalDurationSeconds,
+        runtimeSeconds: script.runtimeSeconds ?? getRuntime(script.pairs),
+        updatedAt: script.updatedAt,
+      });
+    }
+    return entries;
+  },
+});
+
+/** Share a script by email, or change the role of an existing share */
+export const invite = mutation({
+  args: {
+    scriptId: v.id("scripts"),
+    email: v.string(),
+    role: roleValidator,
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Not authenticated");
+    await ownedScript(ctx, args.scriptId, identity.subject);
+    const email = normalizeEmail(args.email);
+    // Messages the share dialog shows as they are
+    if (!/^[^\s@]+@[^\s@]+$/.test(email)) throw new ConvexError("Enter a valid email address");
+    if (identity.email && normalizeEmail(identity.email) === email) {
+      throw new ConvexError("That's you — you already own this script");
+    }
+    const existing = await ctx.db
+      .query("scriptShares")
+      .withIndex("by_script_email", (q) => q.eq("scriptId", args.scriptId).eq("email", email))
+      .unique();
+    if (existing) {
+      await ctx.db.patch(existing._id, { role: args.role });
+      return existing._id;
+    }
+    return await ctx.db.insert("scriptShares", {
+      scriptId: args.scriptId,
+      ownerId: identity.subject,
+      ownerName: identity.name ?? identity.email ?? "Someone",
+      email,
+      role: args.role,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+export const updateRole = mutation({
+  args: { id: v.id("scriptShares"), role: roleValidator },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Not authenticated");
+    const share = await ctx.db.get(args.id);
+    if (!share || share.ownerId !== identity.subject) throw new Error("Not found");
+    await ctx.db.patch(args.id, { role: args.role });
+  },
+});
+
+/** Revoke a share (by the owner) */
+export const remove = mutation({
+  args: { id: v.id("scriptShares") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Not authenticated");
+    const share = await ctx.db.get(args.id);
+    if (!share || share.ownerId !== identity.subject) throw new Error("Not found");
+    await ctx.db.delete(args.id);
+  },
+});
+
+/** Drop a script someone shared with the signed-in user from their list */
+export const leave = mutation({
+  args: { scriptId: v.id("scripts") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity?.email) throw new Error("Not authenticated");
+    const share = await ctx.db
+      .query("scriptShares")
+      .withIndex("by_script_email", (q) =>
+        q.eq("scriptId", args.scriptId).eq("email", normalizeEmail(identity.email!))
+      )
+      .unique();
+    if (!share) throw new Error("Not found");
+    await ctx.db.delete(share._id);
+  },
+});
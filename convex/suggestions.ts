@@ -0,0 +1,164 @@
+import { query, mutation } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { UserIdentity } from "convex/server";
+import { v } from "convex/values";
+import { scriptOpValidator } from "./validators";
+import type { ScriptOp } from "../src/types/script";
+import { canReadScript, canCommentOnScript } from "./access";
+import { writeOps, withoutForeignImages } from "./scripts";
+import { applyScriptOps } from "../src/utils/scriptOps";
+import { suggestionApplies } from "../src/utils/suggestions";
+
+/** Most ops one suggestion may carry */
+const MAX_OPS = 200;
+
+/** The script, if the signed-in user owns it — only owners accept or reject */
+async function ownedScript(ctx: MutationCtx, scriptId: Id<"scripts">, userId: string) {
+  const script = await ctx.db.get(scriptId);
+  if (!script || script.userId !== userId || script.deletedAt) throw new Error("Not found");
+  return script;
+}
+
+async function pendingSuggestions(ctx: MutationCtx, scriptId: Id<"scripts">) {
+  return await ctx.db
+    .query("suggestions")
+    .withIndex("by_script", (q) => q.eq("scriptId", scriptId))
+    .collect();
+}
+
+/**
+ * Apply suggestions to the script in the order they were made, and drop
+ * them. Suggestions that no longer apply (see `suggestionApplies`) are
+ * dropped without applying them; returns how many. Images the accepting
+ * owner couldn't add themselves are left out.
+ */
+async function acceptSuggestions(
+  ctx: MutationCtx,
+  identity: UserIdentity,
+  script: Doc<"scripts">,
+  suggestions: Doc<"suggestions">[]
+) {
+  const accepted: ScriptOp[] = [];
+  let current = script;
+  let stale = 0;
+  for (const suggestion of suggestions) {
+    const ops = suggestion.ops as ScriptOp[];
+    if (suggestionApplies(current, ops)) {
+      accepted.push(...ops);
+      current = { ...current, pairs: applyScriptOps(current, ops).pairs };
+    } else {
+      stale++;
+    }
+    await ctx.db.delete(suggestion._id);
+  }
+  const ops = await withoutForeignImages(ctx, identity, script, accepted);
+  if (ops.length > 0) await writeOps(ctx, script, ops);
+  return { stale };
+}
+
+/** Pending suggestions on a script, oldest first */
+export const list = query({
+  args: { scriptId: v.id("scripts") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) return [];
+    const script = await ctx.db.get(args.scriptId);
+    if (!script || !(await canReadScript(ctx, script, identity))) return [];
+    const suggestions = await ctx.db
+      .query("suggestions")
+      .withIndex("by_script", (q) => q.eq("scriptId", args.scriptId))
+      .collect();
+    const isOwner = script.userId === identity.subject;
+    return suggestions.map((suggestion) => {
+      const stale = !suggestionApplies(script, suggestion.ops as ScriptOp[]);
+      return {
+        _id: suggestion._id,
+        authorName: suggestion.authorName,
+        ops: suggestion.ops as ScriptOp[],
+        createdAt: suggestion.createdAt,
+        stale,
+        canAccept: isOwner && !stale,
+        // Authors may withdraw their own suggestions
+        canReject: isOwner || suggestion.userId === identity.subject,
+      };
+    });
+  },
+});
+
+/** Propose edits — anyone who may comment on the script may suggest */
+export const create = mutation({
+  args: {
+    scriptId: v.id("scripts"),
+    ops: v.array(scriptOpValidator),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Not authenticated");
+    const script = await ctx.db.get(args.scriptId);
+    if (!script || !(await canCommentOnScript(ctx, script, identity))) throw new Error("Not found");
+    if (args.ops.length === 0 || args.ops.length > MAX_OPS) throw new Error("Invalid suggestion");
+    // Suggesting an image makes it visible to everyone on the script
+    const ops = args.ops as ScriptOp[];
+    if ((await withoutForeignImages(ctx, identity, script, ops)).length < ops.length) {
+      throw new Error("Not found");
+    }
+    return await ctx.db.insert("suggestions", {
+      scriptId: args.scriptId,
+      userId: identity.subject,
+      authorName: identity.name ?? identity.email ?? "Someone",
+      ops: args.ops,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+export const accept = mutation({
+  args: { id: v.id("suggestions") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Not authenticated");
+    const suggestion = await ctx.db.get(args.id);
+    if (!suggestion) throw new Error("Not found");
+    const script = await ownedScript(ctx, suggestion.scriptId, identity.subject);
+    return await acceptSuggestions(ctx, identity, script, [suggestion]);
+  },
+});
+
+/** Reject a suggestion (by the owner), or withdraw it (by its author) */
+export const reject = mutation({
+  args: { id: v.id("suggestions") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Not authenticated");
+    const suggestion = await ctx.db.get(args.id);
+    if (!suggestion) throw new Error("Not found");
+    const script = await ctx.db.get(suggestion.scriptId);
+    if (!script || (suggestion.userId !== identity.subject && script.userId !== identity.subject)) {
+      throw new Error("Not found");
+    }
+    await ctx.db.delete(args.id);
+  },
+});
+
+export const acceptAll = mutation({
+  args: { scriptId: v.id("scripts") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Not authenticated");
+    const script = await ownedScript(ctx, args.scriptId, identity.subject);
+    return await acceptSuggestions(ctx, identity, script, await pendingSuggestions(ctx, args.scriptId));
+  },
+});
+
+export const rejectAll = mutation({
+  args: { scriptId: v.id("scripts") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Not authenticated");
+    await ownedScript(ctx, args.scriptId, identity.subject);
+    for (const suggestion of await pendingSuggestions(ctx, args.scriptId)) {
+      await ctx.db.delete(suggestion._id);
+    }
+  },
+});
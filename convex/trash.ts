@@ -0,0 +1,174 @@
+import { query, mutation, internalMutation } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { getRuntime } from "../src/utils/timing";
+import { imageIdsOf, collectReferencedImages, referencedByScript, deleteImage } from "./images";
+
+/** Trashed scripts and removed images are kept this long before being purged */
+export const TRASH_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const PURGE_BATCH_SIZE = 50;
+
+/**
+ * Permanently delete a script with everything attached to it, and the
+ * owner's images nothing else of theirs uses. Images someone else uploaded
+ * (an editor, or any id pasted into the script) are left to their owner's
+ * garbage collection.
+ */
+async function purgeScript(ctx: MutationCtx, script: Doc<"scripts">) {
+  const versions = await ctx.db
+    .query("scriptVersions")
+    .withIndex("by_script", (q) => q.eq("scriptId", script._id))
+    .collect();
+
+  const imageIds = new Set([
+    ...imageIdsOf(script.pairs),
+    ...versions.flatMap((version) => imageIdsOf(version.pairs)),
+  ]);
+  const stillUsed = await collectReferencedImages(ctx, script.userId, script._id);
+  for (const imageId of imageIds) {
+    const storageId = ctx.db.system.normalizeId("_storage", imageId);
+    if (!storageId || stillUsed.has(imageId)) continue;
+    const image = await ctx.db
+      .query("images")
+      .withIndex("by_storage", (q) => q.eq("storageId", storageId))
+      .unique();
+    if (image?.userId === script.userId) await deleteImage(ctx, storageId);
+  }
+
+  for (const version of versions) {
+    await ctx.db.delete(version._id);
+  }
+  const shares = await ctx.db
+    .query("scriptShares")
+    .withIndex("by_script_email", (q) => q.eq("scriptId", script._id))
+    .collect();
+  for (const share of shares) {
+    await ctx.db.delete(share._id);
+  }
+  const links = await ctx.db
+    .query("shareLinks")
+    .withIndex("by_script", (q) => q.eq("scriptId", script._id))
+    .collect();
+  for (const link of links) {
+    await ctx.db.delete(link._id);
+  }
+  const comments = await ctx.db
+    .query("comments")
+    .withIndex("by_script", (q) => q.eq("scriptId", script._id))
+    .collect();
+  for (const comment of comments) {
+    await ctx.db.delete(comment._id);
+  }
+  const suggestions = await ctx.db
+    .query("suggestions")
+    .withIndex("by_script", (q) => q.eq("scriptId", script._id))
+    .collect();
+  for (const suggestion of suggestions) {
+    await ctx.db.delete(suggestion._id);
+  }
+  await ctx.db.delete(script._id);
+}
+
+export const list = query({
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) return [];
+    const scripts = await ctx.db
+      .query("scripts")
+      .withIndex("by_user_deleted", (q) => q.eq("userId", identity.subject).gt("deletedAt", 0))
+      .order("desc")
+      .collect();
+    return scripts.map((script) => ({
+      _id: script._id,
+      title: script.title,
+      runtimeSeconds: script.runtimeSeconds ?? getRuntime(script.pairs),
+      totalDurationSeconds: script.totalDurationSeconds,
+      deletedAt: script.deletedAt!,
+      purgeAt: script.deletedAt! + TRASH_RETENTION_MS,
+    }));
+  },
+});
+
+export const restore = mutation({
+  args: { id: v.id("scripts") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Not authenticated");
+    const existing = await ctx.db.get(args.id);
+    if (!existing || existing.userId !== identity.subject || !existing.deletedAt) {
+      throw new Error("Not found");
+    }
+    await ctx.db.patch(args.id, { deletedAt: undefined });
+  },
+});
+
+/** Delete a trashed script right away instead of waiting for the purge */
+export const purge = mutation({
+  args: { id: v.id("scripts") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Not authenticated");
+    const existing = await ctx.db.get(args.id);
+    if (!existing || existing.userId !== identity.subject || !existing.deletedAt) {
+      throw new Error("Not found");
+    }
+    await purgeScript(ctx, existing);
+  },
+});
+
+export const empty = mutation({
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Not authenticated");
+    const scripts = await ctx.db
+      .query("scripts")
+      .withIndex("by_user_deleted", (q) => q.eq("userId", identity.subject).gt("deletedAt", 0))
+      .collect();
+    for (const script of scripts) {
+      await purgeScript(ctx, script);
+    }
+  },
+});
+
+/**
+ * Daily cleanup (see crons.ts): purges scripts trashed longer than the
+ * retention period, and removed images that nothing references any more.
+ * An image whose reference came back (undo after removing it) is kept.
+ */
+export const purgeExpired = internalMutation({
+  handler: async (ctx) => {
+    const cutoff = Date.now() - TRASH_RETENTION_MS;
+
+    const scripts = await ctx.db
+      .query("scripts")
+      .withIndex("by_deleted", (q) => q.gt("deletedAt", 0).lt("deletedAt", cutoff))
+      .take(PURGE_BATCH_SIZE);
+    for (const script of scripts) {
+      await purgeScript(ctx, script);
+    }
+
+    const images = await ctx.db
+      .query("images")
+      .withIndex("by_deleted", (q) => q.gt("deletedAt", 0).lt("deletedAt", cutoff))
+      .take(PURGE_BATCH_SIZE);
+    for (const image of images) {
+      // Same references collectGarbage checks: the uploader's scripts and the one it was uploaded into
+      const referenced =
+        (await collectReferencedImages(ctx, image.userId)).has(image.storageId) ||
+        (image.scriptId !== undefined && (await referencedByScript(ctx, image.scriptId, image.storageId)));
+      if (referenced) {
+        await ctx.db.patch(image._id, { deletedAt: undefined });
+      } else {
+        await deleteImage(ctx, image.storageId);
+      }
+    }
+
+    // Large backlogs are worked through in batches rather than one long transaction
+    if (scripts.length === PURGE_BATCH_SIZE || images.length === PURGE_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.trash.purgeExpired, {});
+    }
+  },
+});
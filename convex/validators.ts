@@ -0,0 +1,59 @@
+import { v } from "convex/values";
+
+/** Bumped whenever the stored shape of `pairs` changes — see migrations.ts */
+export const CURRENT_SCHEMA_VERSION = 1;
+
+/** Mirrors `Bubble` in src/types/script.ts */
+export const bubbleValidator = v.object({
+  id: v.string(),
+  type: v.union(v.literal("text"), v.literal("filler")),
+  content: v.string(),
+  durationSeconds: v.number(),
+  manualDuration: v.optional(v.boolean()),
+  imageId: v.optional(v.string()),
+});
+
+/** Mirrors `BubblePair` in src/types/script.ts */
+export const bubblePairValidator = v.object({
+  id: v.string(),
+  text: bubbleValidator,
+  visual: bubbleValidator,
+  visualSpan: v.optional(v.number()),
+});
+
+export const pairsValidator = v.array(bubblePairValidator);
+
+/** Mirrors `ScriptOp` in src/types/script.ts */
+export const scriptOpValidator = v.union(
+  v.object({ type: v.literal("updatePairText"), pairId: v.string(), content: v.string() }),
+  v.object({ type: v.literal("commitPairText"), pairId: v.string() }),
+  v.object({ type: v.literal("updatePairVisual"), pairId: v.string(), content: v.string() }),
+  v.object({
+    type: v.literal("updateBubbleImage"),
+    pairId: v.string(),
+    imageId: v.optional(v.string()),
+  }),
+  v.object({
+    type: v.literal("updateBubbleDuration"),
+    pairId: v.string(),
+    side: v.union(v.literal("text"), v.literal("visual")),
+    durationSeconds: v.number(),
+  }),
+  v.object({
+    type: v.literal("splitBubble"),
+    pairId: v.string(),
+    charOffset: v.number(),
+    newIds: v.optional(v.array(v.string())),
+  }),
+  v.object({
+    type: v.literal("insertFiller"),
+    beforePairId: v.string(),
+    newIds: v.optional(v.array(v.string())),
+  }),
+  v.object({ type: v.literal("deletePair"), pairId: v.string() }),
+  v.object({ type: v.literal("mergePairUp"), pairId: v.string() }),
+  v.object({ type: v.literal("mergePairDown"), pairId: v.string() }),
+  v.object({ type: v.literal("mergeVisualUp"), pairId: v.string() }),
+  v.object({ type: v.literal("mergeVisualDown"), pairId: v.string() }),
+  v.object({ type: v.literal("splitVisualSpan"), pairId: v.string() })
+);
@@ -0,0 +1,149 @@
+import { query, mutation } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+import { v } from "convex/values";
+import { pairsValidator } from "./validators";
+import { getRuntime } from "../src/utils/timing";
+import { canReadScript, canEditScript } from "./access";
+import { assertCanAddImages } from "./images";
+
+/** Automatic snapshots are taken at most this often per script */
+export const SNAPSHOT_INTERVAL_MS = 10 * 60 * 1000;
+
+/** Oldest automatic snapshots beyond this count are pruned (manual ones are kept) */
+const MAX_AUTO_VERSIONS = 50;
+
+/** Store a copy of the script's current state */
+export async function snapshotScript(
+  ctx: MutationCtx,
+  script: Doc<"scripts">,
+  kind: Doc<"scriptVersions">["kind"],
+  label?: string
+) {
+  await ctx.db.insert("scriptVersions", {
+    scriptId: script._id,
+    userId: script.userId,
+    title: script.title,
+    totalDurationSeconds: script.totalDurationSeconds,
+    pairs: script.pairs,
+    kind,
+    label,
+    createdAt: Date.now(),
+  });
+
+  if (kind === "auto") {
+    const autos = (
+      await ctx.db
+        .query("scriptVersions")
+        .withIndex("by_script", (q) => q.eq("scriptId", script._id))
+        .order("desc")
+        .collect()
+    ).filter((version) => version.kind === "auto");
+    for (const stale of autos.slice(MAX_AUTO_VERSIONS)) {
+      await ctx.db.delete(stale._id);
+    }
+  }
+}
+
+/** Snapshot the state about to be overwritten, unless a snapshot is recent enough */
+export async function maybeAutoSnapshot(ctx: MutationCtx, script: Doc<"scripts">) {
+  const latest = await ctx.db
+    .query("scriptVersions")
+    .withIndex("by_script", (q) => q.eq("scriptId", script._id))
+    .order("desc")
+    .first();
+  if (latest && Date.now() - latest.createdAt < SNAPSHOT_INTERVAL_MS) return;
+  await snapshotScript(ctx, script, "auto");
+}
+
+export const list = query({
+  args: { scriptId: v.id("scripts") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) return [];
+    const script = await ctx.db.get(args.scriptId);
+    if (!script || !(await canReadScript(ctx, script, identity))) return [];
+    const versions = await ctx.db
+      .query("scriptVersions")
+      .withIndex("by_script", (q) => q.eq("scriptId", args.scriptId))
+      .order("desc")
+      .collect();
+    // Metadata only — fetch pairs with `get` when previewing
+    return versions.map((version) => ({
+      _id: version._id,
+      title: version.title,
+      kind: version.kind,
+      label: version.label,
+      createdAt: version.createdAt,
+      pairCount: version.pairs.length,
+      runtimeSeconds: getRuntime(version.pairs),
+    }));
+  },
+});
+
+export const get = query({
+  args: { id: v.id("scriptVersions") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) return null;
+    const version = await ctx.db.get(args.id);
+    if (!version) return null;
+    const script = await ctx.db.get(version.scriptId);
+    if (!script || !(await canReadScript(ctx, script, identity))) return null;
+    return version;
+  },
+});
+
+/** Explicit "save version" — snapshots the state the client is showing */
+export const save = mutation({
+  args: {
+    scriptId: v.id("scripts"),
+    label: v.optional(v.string()),
+    title: v.string(),
+    totalDurationSeconds: v.number(),
+    pairs: pairsValidator,
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Not authenticated");
+    const existing = await ctx.db.get(args.scriptId);
+    if (!existing || !(await canEditScript(ctx, existing, identity))) {
+      throw new Error("Not found");
+    }
+    await assertCanAddImages(ctx, identity, existing, args.pairs, existing.pairs);
+    await snapshotScript(
+      ctx,
+      { ...existing, title: args.title, totalDurationSeconds: args.totalDurationSeconds, pairs: args.pairs },
+      "manual",
+      args.label?.trim() || undefined
+    );
+  },
+});
+
+/** Replace the script with a version — the current state is snapshotted first */
+export const restore = mutation({
+  args: { id: v.id("scriptVersions") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Not authenticated");
+    const version = await ctx.db.get(args.id);
+    if (!version) throw new Error("Not found");
+    const existing = await ctx.db.get(version.scriptId);
+    if (!existing || !(await canEditScript(ctx, existing, identity))) {
+      throw new Error("Not found");
+    }
+    await snapshotScript(ctx, existing, "restore", "Before restore");
+    const restored = {
+      title: version.title,
+      totalDurationSeconds: version.totalDurationSeconds,
+      pairs: version.pairs,
+    };
+    await ctx.db.patch(existing._id, {
+      ...restored,
+      runtimeSeconds: getRuntime(restored.pairs),
+      revision: (existing.revision ?? 0) + 1,
+      updatedAt: Date.now(),
+    });
+    return restored;
+  },
+});
@@ -1,4 +1,4 @@
-import { useEffect, useRef, useCallback } from 'react';
+import { useEffect, useRef, useCallback, useState, useMemo } from 'react';
 import { SignIn, useUser } from '@clerk/clerk-react';
 import { Authenticated, Unauthenticated, AuthLoading } from 'convex/react';
 import { Header } from './components/Header';
@@ -6,10 +6,24 @@ import { BubbleTimeline } from './components/BubbleTimeline';
 import { useScript } from './hooks/useScript';
 import { SettingsContext, useSettingsProvider } from './hooks/useSettings';
 import { StorageContext, useStorageProvider, useStorage } from './hooks/useStorage';
+import { usePresence } from './hooks/usePresence';
+import { useComments } from './hooks/useComments';
+import { useSuggestions, useSuggestionDraft } from './hooks/useSuggestions';
+import { usePlayback } from './hooks/usePlayback';
 import { MigrationBanner } from './components/MigrationBanner';
-import type { Script } from './types/script';
-
-const MAX_SCRIPTS = 5;
+import { RepairNotice } from './components/RepairNotice';
+import { ConflictDialog } from './components/ConflictDialog';
+import { SharedScriptView } from './components/SharedScriptView';
+import { CommentsSidebar } from './components/CommentsSidebar';
+import { SuggestionBar } from './components/SuggestionBar';
+import { PlaybackBar } from './components/PlaybackBar';
+import { Teleprompter } from './components/Teleprompter';
+import { RehearsalDialog } from './components/RehearsalDialog';
+import { sameScript, mergeScripts } from './utils/mergeScripts';
+import { canEdit, canComment, canSuggest } from './utils/roles';
+import { suggestionMarks } from './utils/suggestions';
+import { getRuntime } from './utils/timing';
+import type { Script, CommentAnchor } from './types/script';
 
 /** Check if a script has any real content worth saving */
 function isScriptEmpty(s: Script): boolean {
@@ -36,7 +50,12 @@ function AppContent() {
 
   const {
     script,
-    setScript,
+    loadScript,
+    restoreScript,
+    rebaseScript,
+    takeChanges,
+    undo,
+    redo,
     setTitle,
     setTotalDuration,
     updatePairText,
@@ -52,6 +71,7 @@ function AppContent() {
     mergeVisualUp,
     mergeVisualDown,
     splitVisualSpan,
+    setTextDurations,
   } = useScript();
 
   // --- Bootstrap: load or create initial file ---
@@ -60,52 +80,76 @@ function AppContent() {
     if (bootstrapped.current || storage.isLoading) return;
     bootstrapped.current = true;
 
-    if (storage.currentFileId) {
-      const loaded = storage.loadFile(storage.currentFileId);
-      if (loaded) {
-        setScript(loaded);
-        return;
+    (async () => {
+      if (storage.currentFileId) {
+        const loaded = await storage.loadFile(storage.currentFileId);
+        if (loaded) {
+          loadScript(loaded, storage.currentFileId);
+          return;
+        }
       }
-    }
-    // No valid current file — check if any files exist
-    if (storage.files.length > 0) {
-      const latest = [...storage.files].sort((a, b) => b.updatedAt - a.updatedAt)[0];
-      const loaded = storage.loadFile(latest.id);
-      if (loaded) {
-        setScript(loaded);
-        storage.setCurrentFileId(latest.id);
-        return;
+      // No valid current file — fall back to the most recently edited one
+      const latest = storage.files[0];
+      if (latest) {
+        const loaded = await storage.loadFile(latest.id);
+        if (loaded) {
+          loadScript(loaded, latest.id);
+          storage.setCurrentFileId(latest.id);
+          return;
+        }
       }
-    }
-    // First visit — create default file
-    const { id, script: newScript } = storage.createFile();
-    setScript(newScript);
-    storage.setCurrentFileId(id);
+      // First visit — create default file
+      const { id, script: newScript } = storage.createFile();
+      loadScript(newScript, id);
+      storage.setCurrentFileId(id);
+    })();
   }, [storage.isLoading]); // eslint-disable-line react-hooks/exhaustive-deps
 
-  // --- Auto-save with 1s debounce (skip empty scripts, auto-title) ---
+  // --- Auto-save: edits go out as ops right away (storage batches them);
+  // whole-script writes (undo, restore) and auto-titling wait for a 1s pause ---
+  const readOnly = !canEdit(storage.currentRole);
+
   const saveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
   const scriptRef = useRef(script);
   scriptRef.current = script;
+  // Content was replaced wholesale and must be written as a whole
+  const wholePending = useRef(false);
+
+  /** Hand all edits made so far to storage */
+  const flushChanges = useCallback(() => {
+    const id = storage.currentFileId;
+    if (!id || id.startsWith('pending-')) return;
+    if (saveTimer.current) clearTimeout(saveTimer.current);
+    const { ops, replaced } = takeChanges();
+    if (readOnly) return;
+    if (replaced || wholePending.current) {
+      wholePending.current = false;
+      // Don't save blank scripts
+      if (!isScriptEmpty(scriptRef.current)) storage.saveFile(id, scriptRef.current);
+    } else {
+      storage.saveOps(id, ops, scriptRef.current);
+    }
+  }, [storage, takeChanges, readOnly]);
 
   useEffect(() => {
     if (!storage.currentFileId || !bootstrapped.current || storage.currentFileId.startsWith('pending-')) return;
 
+    const { ops, replaced } = takeChanges();
+    // Viewers and commenters can't change the script, so there's nothing to write
+    if (readOnly) return;
+    if (replaced) wholePending.current = true;
+    if (!wholePending.current) storage.saveOps(storage.currentFileId, ops, script);
+
     if (saveTimer.current) clearTimeout(saveTimer.current);
     saveTimer.current = setTimeout(() => {
       const current = scriptRef.current;
-      if (!storage.currentFileId || storage.currentFileId.startsWith('pending-')) return;
-      // Don't save blank scripts
       if (isScriptEmpty(current)) return;
-      // Auto-generate title if still default
+      // Auto-generate title if still default (saved with the next change)
       if (current.title === 'Untitled Script') {
         const derived = deriveTitle(current);
-        if (derived !== 'Untitled Script') {
-          scriptRef.current = { ...current, title: derived };
-          setTitle(derived);
-        }
+        if (derived !== 'Untitled Script') setTitle(derived);
       }
-      storage.saveFile(storage.currentFileId, scriptRef.current);
+      if (wholePending.current) flushChanges();
     }, 1000);
 
     return () => {
@@ -114,63 +158,175 @@ function AppContent() {
   }, [script, storage.currentFileId]); // eslint-disable-line react-hooks/exhaustive-deps
 
   // --- File operations ---
-  const handleSwitchFile = useCallback((id: string) => {
-    // Save current file immediately before switching (skip if empty)
-    if (storage.currentFileId && !storage.currentFileId.startsWith('pending-') && !isScriptEmpty(scriptRef.current)) {
-      storage.saveFile(storage.currentFileId, scriptRef.current);
-    }
-    const loaded = storage.loadFile(id);
+  const handleSwitchFile = useCallback(async (id: string) => {
+    // Save current file immediately before switching
+    flushChanges();
+    const loaded = await storage.loadFile(id);
     if (loaded) {
-      setScript(loaded);
+      loadScript(loaded, id);
       storage.setCurrentFileId(id);
     }
-  }, [storage, setScript]);
+  }, [storage, loadScript, flushChanges]);
 
-  const handleNewScript = useCallback(() => {
-    if (storage.files.length >= MAX_SCRIPTS) return;
-    // Save current file first (skip if empty)
-    if (storage.currentFileId && !storage.currentFileId.startsWith('pending-') && !isScriptEmpty(scriptRef.current)) {
-      storage.saveFile(storage.currentFileId, scriptRef.current);
-    }
-    const { id, script: newScript } = storage.createFile();
-    setScript(newScript);
+  const handleNewScript = useCallback((folderId?: string) => {
+    // Save current file first
+    flushChanges();
+    const { id, script: newScript } = storage.createFile(undefined, folderId);
+    loadScript(newScript, id);
     storage.setCurrentFileId(id);
-  }, [storage, setScript]);
+  }, [storage, loadScript, flushChanges]);
 
-  const handleDeleteScript = useCallback((id: string) => {
+  const handleDeleteScript = useCallback(async (id: string) => {
     storage.deleteFile(id);
     if (storage.currentFileId === id) {
       // Switch to another file or create a new one
-      const remaining = storage.files.filter((f) => f.id !== id);
-      if (remaining.length > 0) {
-        const next = [...remaining].sort((a, b) => b.updatedAt - a.updatedAt)[0];
-        const loaded = storage.loadFile(next.id);
+      const next = storage.files.find((f) => f.id !== id);
+      if (next) {
+        const loaded = await storage.loadFile(next.id);
         if (loaded) {
-          setScript(loaded);
+          loadScript(loaded, next.id);
           storage.setCurrentFileId(next.id);
           return;
         }
       }
       // No files left — create new
       const { id: newId, script: newScript } = storage.createFile();
-      setScript(newScript);
+      loadScript(newScript, newId);
       storage.setCurrentFileId(newId);
     }
-  }, [storage, setScript]);
+  }, [storage, loadScript]);
 
   const handleImport = useCallback((imported: Script) => {
-    if (storage.files.length >= MAX_SCRIPTS) return;
-    // Save current file first (skip if empty)
-    if (storage.currentFileId && !storage.currentFileId.startsWith('pending-') && !isScriptEmpty(scriptRef.current)) {
-      storage.saveFile(storage.currentFileId, scriptRef.current);
-    }
+    // Save current file first
+    flushChanges();
     // Create a new file from imported script
     const { id } = storage.createFile(imported);
-    setScript(imported);
+    loadScript(imported, id);
     storage.setCurrentFileId(id);
-  }, [storage, setScript]);
+  }, [storage, loadScript, flushChanges]);
+
+  // --- Edits saved by collaborators, in another tab or on another device ---
+  useEffect(() => {
+    const incoming = storage.incoming;
+    if (!incoming) return;
+    if (incoming.scriptId === storage.currentFileId) {
+      if (wholePending.current) {
+        // A whole-script write can't be replayed on top — saving it surfaces the conflict
+        flushChanges();
+        return;
+      }
+      rebaseScript(incoming.script);
+    }
+    storage.acceptIncoming();
+  }, [storage.incoming]); // eslint-disable-line react-hooks/exhaustive-deps
 
-  const currentDuration = script.pairs.reduce(
+  const handleResolveConflict = useCallback((resolved: Script) => {
+    if (storage.conflict?.scriptId === storage.currentFileId && !sameScript(resolved, scriptRef.current)) {
+      restoreScript(resolved);
+    }
+    storage.resolveConflict(resolved);
+  }, [storage, restoreScript]);
+
+  // Conflicts that merge cleanly (no pair changed on both sides) are settled without asking
+  const { conflict } = storage;
+  const autoResolve = useMemo(() => {
+    if (!conflict?.base) return null;
+    const merged = mergeScripts(conflict.base, conflict.local, conflict.remote);
+    return merged.conflicts === 0 ? merged.script : null;
+  }, [conflict]);
+  useEffect(() => {
+    if (autoResolve) handleResolveConflict(autoResolve);
+  }, [autoResolve, handleResolveConflict]);
+
+  // --- Presence: who else has this script open, and which bubble they're editing ---
+  const [editingPairId, setEditingPairId] = useState<string | null>(null);
+  const presenceScriptId = storage.currentFileId && !storage.currentFileId.startsWith('pending-')
+    ? storage.currentFileId
+    : null;
+  const { collaborators, lockedPairIds } = usePresence(presenceScriptId, editingPairId);
+
+  // --- Comments: sidebar, and the bubble a new thread is being started on ---
+  const { threads, openCounts } = useComments(presenceScriptId);
+  const [commentsOpen, setCommentsOpen] = useState(false);
+  const [commentDraft, setCommentDraft] = useState<{ scriptId: string; anchor: CommentAnchor } | null>(null);
+  const handleComment = useCallback((anchor: CommentAnchor) => {
+    if (presenceScriptId) setCommentDraft({ scriptId: presenceScriptId, anchor });
+    setCommentsOpen(true);
+  }, [presenceScriptId]);
+  const openComments = threads.filter((t) => !t.resolvedAt).length;
+
+  // --- Suggestions: reviewers' edits shown as track changes until the owner accepts them ---
+  const suggestionsApi = useSuggestions(presenceScriptId);
+  const marks = useMemo(
+    () => suggestionMarks(script, suggestionsApi.suggestions),
+    [script, suggestionsApi.suggestions]
+  );
+  const [suggestMode, setSuggestMode] = useState(false);
+  const suggesting = suggestMode && canSuggest(storage.currentRole) && presenceScriptId !== null;
+  const draft = useSuggestionDraft(presenceScriptId, script);
+  const { editingChanged } = draft;
+  const handleEditingChange = useCallback((pairId: string | null) => {
+    setEditingPairId(pairId);
+    editingChanged(pairId);
+  }, [editingChanged]);
+  const isOwner = storage.currentRole === 'owner';
+  const shownScript = suggesting ? draft.draftScript : script;
+
+  // Ctrl+Z to undo, Ctrl+Shift+Z (or Ctrl+Y) to redo
+  useEffect(() => {
+    function handleKeyDown(e: KeyboardEvent) {
+      // Suggestions are undone by withdrawing them
+      if (readOnly || suggesting || !(e.ctrlKey || e.metaKey) || e.altKey) return;
+      // Single-line inputs (title, duration) keep the browser's native undo
+      if (e.target instanceof HTMLInputElement) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) redo();
+        else undo();
+      } else if (key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    }
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo, readOnly, suggesting]);
+
+  // --- Playback: a clock over the script's timing, in the timeline or the teleprompter ---
+  const runtime = getRuntime(script.pairs);
+  const playback = usePlayback(runtime);
+  const [teleprompterOpen, setTeleprompterOpen] = useState(false);
+  const closeTeleprompter = useCallback(() => setTeleprompterOpen(false), []);
+  const [rehearsalOpen, setRehearsalOpen] = useState(false);
+  const closeRehearsal = useCallback(() => setRehearsalOpen(false), []);
+  // Shown from the first play until stopped
+  const playheadTime = playback.playing || playback.time > 0 ? playback.time : undefined;
+
+  const timelineHandlers = suggesting
+    ? {
+        ...draft.handlers,
+        // The target duration isn't part of a suggestion
+        onDurationChange: () => {},
+      }
+    : {
+        onDurationChange: setTotalDuration,
+        onUpdateText: updatePairText,
+        onCommitText: commitPairText,
+        onUpdateVisual: updatePairVisual,
+        onUpdateImage: updateBubbleImage,
+        onSplit: splitBubble,
+        onInsertFiller: insertFiller,
+        onUpdateDuration: updateBubbleDuration,
+        onDeletePair: deletePair,
+        onMergePairUp: mergePairUp,
+        onMergePairDown: mergePairDown,
+        onMergeVisualUp: mergeVisualUp,
+        onMergeVisualDown: mergeVisualDown,
+        onSplitVisualSpan: splitVisualSpan,
+      };
+
+  const currentDuration = shownScript.pairs.reduce(
     (sum, pair) => sum + pair.text.durationSeconds,
     0
   );
@@ -189,9 +345,13 @@ function AppContent() {
   return (
     <div className="flex flex-col h-screen bg-surface text-text-primary">
       <MigrationBanner />
+      {storage.repairs && storage.repairs.scriptId === storage.currentFileId && (
+        <RepairNotice repairs={storage.repairs} onDismiss={storage.dismissRepairs} />
+      )}
       <Header
         title={script.title}
         onTitleChange={setTitle}
+        role={storage.currentRole}
         onImport={handleImport}
         script={script}
         files={storage.files}
@@ -199,31 +359,84 @@ function AppContent() {
         onSwitchFile={handleSwitchFile}
         onNewScript={handleNewScript}
         onDeleteFile={handleDeleteScript}
+        onRestoreVersion={restoreScript}
+        syncStatus={storage.syncStatus}
+        pendingWrites={storage.pendingWrites}
         userName={user?.firstName ?? user?.emailAddresses[0]?.emailAddress ?? 'User'}
+        openComments={openComments}
+        onToggleComments={presenceScriptId ? () => setCommentsOpen((open) => !open) : undefined}
       />
-      <BubbleTimeline
-        pairs={script.pairs}
-        totalDuration={script.totalDurationSeconds}
-        currentDuration={currentDuration}
-        onDurationChange={setTotalDuration}
-        onUpdateText={updatePairText}
-        onCommitText={commitPairText}
-        onUpdateVisual={updatePairVisual}
-        onUpdateImage={updateBubbleImage}
-        onSplit={splitBubble}
-        onInsertFiller={insertFiller}
-        onUpdateDuration={updateBubbleDuration}
-        onDeletePair={deletePair}
-        onMergePairUp={mergePairUp}
-        onMergePairDown={mergePairDown}
-        onMergeVisualUp={mergeVisualUp}
-        onMergeVisualDown={mergeVisualDown}
-        onSplitVisualSpan={splitVisualSpan}
+      {presenceScriptId && (canSuggest(storage.currentRole) || suggestionsApi.suggestions.length > 0) && (
+        <SuggestionBar
+          count={suggestionsApi.suggestions.length}
+          staleCount={suggestionsApi.suggestions.filter((s) => s.stale).length}
+          canSuggest={canSuggest(storage.currentRole)}
+          suggesting={suggesting}
+          onToggleSuggesting={() => setSuggestMode((on) => !on)}
+          onAcceptAll={isOwner ? suggestionsApi.acceptAll : undefined}
+          onRejectAll={isOwner ? suggestionsApi.rejectAll : undefined}
+        />
+      )}
+      <div className="flex flex-1 overflow-hidden">
+        <BubbleTimeline
+          pairs={shownScript.pairs}
+          totalDuration={script.totalDurationSeconds}
+          currentDuration={currentDuration}
+          {...timelineHandlers}
+          collaborators={collaborators}
+          lockedPairIds={lockedPairIds}
+          onEditingChange={handleEditingChange}
+          readOnly={readOnly && !suggesting}
+          commentCounts={openCounts}
+          canComment={canComment(storage.currentRole)}
+          onComment={presenceScriptId ? handleComment : undefined}
+          suggestions={presenceScriptId ? marks : undefined}
+          onAcceptSuggestion={suggestionsApi.accept}
+          onRejectSuggestion={suggestionsApi.reject}
+          playheadTime={playheadTime}
+        />
+        {commentsOpen && presenceScriptId && (
+          <CommentsSidebar
+            scriptId={presenceScriptId}
+            threads={threads}
+            pairs={script.pairs}
+            draft={commentDraft?.scriptId === presenceScriptId ? commentDraft.anchor : null}
+            onCancelDraft={() => setCommentDraft(null)}
+            canComment={canComment(storage.currentRole)}
+            onClose={() => { setCommentsOpen(false); setCommentDraft(null); }}
+          />
+        )}
+      </div>
+      <PlaybackBar
+        playback={playback}
+        runtime={runtime}
+        onOpenTeleprompter={() => setTeleprompterOpen(true)}
+        onRehearse={readOnly || suggesting ? undefined : () => { playback.pause(); setRehearsalOpen(true); }}
       />
       <footer className="border-t border-stroke-subtle px-6 py-1.5 text-[10px] flex justify-between text-text-info">
-        <span>Double-click text to edit | Ctrl+Click to split | Click + to add pause | Drag pause edge to resize | Use the needle to pop/merge</span>
+        {suggesting ? (
+          <span>Suggesting — your edits are sent to the owner as suggestions to accept or reject</span>
+        ) : readOnly ? (
+          <span>Shared with you to {storage.currentRole === 'commenter' ? 'comment on' : 'view'} — only the owner and editors can change it</span>
+        ) : (
+          <span>Double-click text to edit | Ctrl+Click to split | Click + to add pause | Drag pause edge to resize | Use the needle to pop/merge | Ctrl+Z to undo</span>
+        )}
         <span>{script.pairs.length} segments</span>
       </footer>
+      {teleprompterOpen && (
+        <Teleprompter pairs={script.pairs} playback={playback} runtime={runtime} onClose={closeTeleprompter} />
+      )}
+      {rehearsalOpen && (
+        <RehearsalDialog pairs={script.pairs} onApply={setTextDurations} onClose={closeRehearsal} />
+      )}
+      {storage.conflict && !autoResolve && (
+        <ConflictDialog
+          local={storage.conflict.local}
+          remote={storage.conflict.remote}
+          base={storage.conflict.base}
+          onResolve={handleResolveConflict}
+        />
+      )}
     </div>
   );
 }
@@ -248,9 +461,20 @@ function LoadingScreen() {
   );
 }
 
+// Public share links (`?share=<token>`) open a read-only view without signing in
+const shareToken = new URLSearchParams(window.location.search).get('share');
+
 function App() {
   const settingsCtx = useSettingsProvider();
 
+  if (shareToken) {
+    return (
+      <SettingsContext.Provider value={settingsCtx}>
+        <SharedScriptView token={shareToken} />
+      </SettingsContext.Provider>
+    );
+  }
+
   return (
     <SettingsContext.Provider value={settingsCtx}>
       <AuthLoading>
@@ -1,9 +1,12 @@
-import { useCallback, useRef, useEffect, useState } from 'react';
-import type { BubblePair } from '../types/script';
+import { useCallback, useRef, useEffect, useLayoutEffect, useState } from 'react';
+import type { BubblePair, CommentAnchor } from '../types/script';
 import { TextBubble } from './TextBubble';
 import { VisualBubble } from './VisualBubble';
-import { formatTime } from '../utils/timing';
+import { formatTime, getCumulativeTimes, pairGridRows, pairIndexAt, pairMinHeight } from '../utils/timing';
+import { findSpanOwner } from '../utils/scriptOps';
 import { useSettings } from '../hooks/useSettings';
+import type { Collaborator } from '../hooks/usePresence';
+import type { SuggestionMark } from '../utils/suggestions';
 import { Plus, Scissors, Clock } from 'lucide-react';
 
 interface BubbleTimelineProps {
@@ -14,20 +17,66 @@ interface BubbleTimelineProps {
   onUpdateText: (pairId: string, content: string) => void;
   onCommitText: (pairId: string) => void;
   onUpdateVisual: (pairId: string, content: string) => void;
-  onUpdateImage: (pairId: string, imageId: string | undefined) => void;
+  /** Omitted where images can't be changed — uploads need edit access, so not while suggesting */
+  onUpdateImage?: (pairId: string, imageId: string | undefined) => void;
   onSplit: (pairId: string, charOffset: number) => void;
-  onInsertFiller: (atIndex: number) => void;
+  /** Insert a pause before the given pair */
+  onInsertFiller: (beforePairId: string) => void;
   onUpdateDuration: (pairId: string, side: 'text' | 'visual', duration: number) => void;
   onDeletePair: (pairId: string) => void;
   onMergePairUp: (pairId: string) => void;
   onMergePairDown: (pairId: string) => void;
   onMergeVisualUp: (pairId: string) => void;
   onMergeVisualDown: (pairId: string) => void;
-  onSplitVisualSpan: (atPairIndex: number) => void;
+  /** Start a new visual at the given covered pair */
+  onSplitVisualSpan: (pairId: string) => void;
+  /** Other people with this script open */
+  collaborators?: Collaborator[];
+  /** Pairs someone else is editing — they can't be edited here meanwhile */
+  lockedPairIds?: Set<string>;
+  /** Reports the pair being edited here (text in edit mode, or a focused visual) */
+  onEditingChange?: (pairId: string | null) => void;
+  /** View the script without changing it (shared with a viewer or commenter) */
+  readOnly?: boolean;
+  /** Set when shown through a public share link — see VisualBubble */
+  shareToken?: string;
+  /** Open comment threads per bubble id */
+  commentCounts?: Map<string, number>;
+  canComment?: boolean;
+  /** Comment badges are shown only when this is set */
+  onComment?: (anchor: CommentAnchor) => void;
+  /** Pending suggestions per bubble id, shown inline */
+  suggestions?: Map<string, SuggestionMark[]>;
+  onAcceptSuggestion?: (id: string) => void;
+  onRejectSuggestion?: (id: string) => void;
+  /** Playback position in seconds — draws the playhead, highlights what's playing and keeps it in view */
+  playheadTime?: number;
 }
 
 const GAP_PX = 8;
 
+const NO_COLLABORATORS: Collaborator[] = [];
+const NO_LOCKS = new Set<string>();
+const NO_COMMENTS = new Map<string, number>();
+const NO_SUGGESTIONS = new Map<string, SuggestionMark[]>();
+
+/** Name tags of the people editing a pair */
+function EditorBadges({ editors }: { editors: Collaborator[] }) {
+  if (editors.length === 0) return null;
+  return (
+    <div className="absolute -top-2 left-4 z-20 flex gap-1 pointer-events-none">
+      {editors.map((editor) => (
+        <span
+          key={editor.sessionId}
+          className={`px-1.5 rounded-full text-[10px] leading-4 text-white shadow-sm ${editor.color}`}
+        >
+          {editor.name}
+        </span>
+      ))}
+    </div>
+  );
+}
+
 export function BubbleTimeline({
   pairs,
   totalDuration,
@@ -46,6 +95,18 @@ export function BubbleTimeline({
   onMergeVisualUp,
   onMergeVisualDown,
   onSplitVisualSpan,
+  collaborators = NO_COLLABORATORS,
+  lockedPairIds = NO_LOCKS,
+  onEditingChange,
+  readOnly = false,
+  shareToken,
+  commentCounts = NO_COMMENTS,
+  canComment = false,
+  onComment,
+  suggestions = NO_SUGGESTIONS,
+  onAcceptSuggestion,
+  onRejectSuggestion,
+  playheadTime,
 }: BubbleTimelineProps) {
   const { settings } = useSettings();
 
@@ -54,6 +115,14 @@ export function BubbleTimeline({
   const [containerHeight, setContainerHeight] = useState(600);
   const [naturalHeight, setNaturalHeight] = useState(0);
   const [editingPairId, setEditingPairId] = useState<string | null>(null);
+  const [focusedVisualPairId, setFocusedVisualPairId] = useState<string | null>(null);
+  const textCellRefs = useRef(new Map<string, HTMLDivElement>());
+  const playheadRef = useRef<HTMLDivElement>(null);
+
+  const activePairId = editingPairId ?? focusedVisualPairId;
+  useEffect(() => {
+    onEditingChange?.(activePairId);
+  }, [activePairId, onEditingChange]);
 
   useEffect(() => {
     const scrollEl = scrollRef.current;
@@ -83,25 +152,45 @@ export function BubbleTimeline({
 
   // Min-heights: proportional for fillers, small fixed for text pairs
   const proportionalPxPerSec = containerHeight / effectiveTotal;
-  const fillerPxPerSec = Math.max(proportionalPxPerSec, 30);
-  const pairMinHeights = pairs.map((p) => {
-    if (p.text.type === 'filler') {
-      return Math.max(28, p.text.durationSeconds * fillerPxPerSec);
-    }
-    return 48;
-  });
+  const pairMinHeights = pairs.map((p) => pairMinHeight(p, proportionalPxPerSec));
 
   const fillerMinHeight = remainingTime > 0
     ? Math.max(24, (remainingTime / effectiveTotal) * containerHeight)
     : 0;
 
   // Cumulative times
-  const cumulativeTimes: number[] = [];
-  let runningTime = 0;
-  for (const pair of pairs) {
-    cumulativeTimes.push(runningTime);
-    runningTime += pair.text.durationSeconds;
-  }
+  const cumulativeTimes = getCumulativeTimes(pairs);
+
+  // Playback: the pair being spoken, and the visual shown over it
+  const playingIndex = playheadTime === undefined ? -1 : pairIndexAt(pairs, playheadTime);
+  const playingVisualIndex = playingIndex > 0 && pairs[playingIndex].visualSpan === 0
+    ? findSpanOwner(pairs, playingIndex)
+    : playingIndex;
+
+  // Rows aren't proportional to time, so the playhead moves through the playing pair's row
+  useLayoutEffect(() => {
+    const line = playheadRef.current;
+    if (!line || playheadTime === undefined || pairs.length === 0) return;
+    const index = playingIndex === -1 ? pairs.length - 1 : playingIndex;
+    const cell = textCellRefs.current.get(pairs[index].id);
+    if (!cell) return;
+    const start = cumulativeTimes[index];
+    const duration = pairs[index].text.durationSeconds;
+    const progress = duration > 0 ? Math.min(1, Math.max(0, (playheadTime - start) / duration)) : 1;
+    line.style.top = `${cell.offsetTop + progress * cell.offsetHeight}px`;
+  });
+
+  // Keep the playhead in the upper part of the view as it moves
+  useLayoutEffect(() => {
+    const line = playheadRef.current;
+    const scrollEl = scrollRef.current;
+    if (!line || !scrollEl || playheadTime === undefined) return;
+    const view = scrollEl.getBoundingClientRect();
+    const lineTop = line.getBoundingClientRect().top;
+    if (lineTop < view.top + view.height * 0.15 || lineTop > view.bottom - view.height * 0.25) {
+      scrollEl.scrollTop += lineTop - (view.top + view.height / 3);
+    }
+  }, [playheadTime]);
 
   // Zoom
   const fitScale = naturalHeight > containerHeight && containerHeight > 0
@@ -115,12 +204,14 @@ export function BubbleTimeline({
   // Edit mode coordination
   const enterEditMode = useCallback(
     (pairId: string) => {
+      // Someone else is editing this bubble, or it can't be edited here at all
+      if (readOnly || lockedPairIds.has(pairId)) return;
       if (editingPairId && editingPairId !== pairId) {
         onCommitText(editingPairId);
       }
       setEditingPairId(pairId);
     },
-    [editingPairId, onCommitText]
+    [editingPairId, onCommitText, lockedPairIds, readOnly]
   );
 
   const exitEditMode = useCallback(() => {
@@ -152,13 +243,7 @@ export function BubbleTimeline({
   // Build grid row templates:
   // For each pair i: separator row (GAP_PX height) + content row (auto)
   // Row numbering (1-indexed): separator = 2*i + 1, content = 2*i + 2
-  const gridTemplateRows = pairs
-    .flatMap((_, i) => {
-      const sepHeight = `${GAP_PX}px`;
-      const contentHeight = `minmax(${pairMinHeights[i]}px, auto)`;
-      return i === 0 ? [sepHeight, contentHeight] : [sepHeight, contentHeight];
-    })
-    .join(' ');
+  const gridTemplateRows = pairGridRows(pairMinHeights, GAP_PX);
 
   // Build grid items
   const gridItems: React.ReactNode[] = [];
@@ -171,13 +256,13 @@ export function BubbleTimeline({
     // Separator + button (voice column) — hide next to fillers to avoid double pauses
     const prevIsFiller = i > 0 && pairs[i - 1].text.type === 'filler';
     const currentIsFiller = pair.text.type === 'filler';
-    if (!prevIsFiller && !currentIsFiller) {
+    if (!readOnly && !prevIsFiller && !currentIsFiller) {
       gridItems.push(
         <div
           key={`sep-${pair.id}`}
           className="relative cursor-pointer group/boundary"
           style={{ gridColumn: 1, gridRow: sepRow }}
-          onClick={() => onInsertFiller(i)}
+          onClick={() => onInsertFiller(pair.id)}
         >
           <div className="absolute -top-2 -bottom-2 left-0 right-0 flex items-center justify-center z-10">
             <div className="rounded-full p-0.5 opacity-0 group-hover/boundary:opacity-100 transition-opacity bg-surface-overlay shadow-sm">
@@ -189,13 +274,13 @@ export function BubbleTimeline({
     }
 
     // Visual column separator: scissors to split the visual span (hover only)
-    if (pair.visualSpan === 0) {
+    if (!readOnly && pair.visualSpan === 0) {
       gridItems.push(
         <div
           key={`vsep-${pair.id}`}
           className="relative group/vsplit cursor-pointer"
           style={{ gridColumn: 2, gridRow: sepRow }}
-          onClick={() => onSplitVisualSpan(i)}
+          onClick={() => onSplitVisualSpan(pair.id)}
         >
           {/* Dashed separator line — hover only, edge-to-edge */}
           <div className="absolute top-1/2 -translate-y-1/2 left-0 right-0 h-px border-t border-dashed border-stroke-visual opacity-0 group-hover/vsplit:opacity-100 transition-opacity" />
@@ -209,13 +294,22 @@ export function BubbleTimeline({
       );
     }
 
+    const editors = collaborators.filter((c) => c.editingPairId === pair.id);
+    const locked = lockedPairIds.has(pair.id);
+
     // Text bubble (voice column)
     gridItems.push(
       <div
         key={`text-${pair.id}`}
-        className="h-full"
+        ref={(el) => {
+          if (el) textCellRefs.current.set(pair.id, el);
+          else textCellRefs.current.delete(pair.id);
+        }}
+        className={`relative h-full ${locked ? 'opacity-70' : ''} ${i === playingIndex ? 'rounded-3xl ring-2 ring-accent' : ''}`}
         style={{ gridColumn: 1, gridRow: contentRow }}
+        title={locked ? `${editors.map((e) => e.name).join(', ')} ${editors.length > 1 ? 'are' : 'is'} editing` : undefined}
       >
+        <EditorBadges editors={editors} />
         <TextBubble
           content={pair.text.content}
           durationSeconds={pair.text.durationSeconds}
@@ -232,6 +326,13 @@ export function BubbleTimeline({
           onDeletePair={() => onDeletePair(pair.id)}
           onMergePairUp={() => onMergePairUp(pair.id)}
           onMergePairDown={() => onMergePairDown(pair.id)}
+          readOnly={readOnly}
+          commentCount={commentCounts.get(pair.text.id)}
+          canComment={canComment}
+          onComment={onComment && ((range) => onComment({ bubbleId: pair.text.id, side: 'text', range }))}
+          suggestions={suggestions.get(pair.text.id)}
+          onAcceptSuggestion={onAcceptSuggestion}
+          onRejectSuggestion={onRejectSuggestion}
         />
       </div>
     );
@@ -245,6 +346,7 @@ export function BubbleTimeline({
       gridItems.push(
         <div
           key={`visual-${pair.id}`}
+          className={i === playingVisualIndex ? 'rounded-3xl ring-2 ring-accent' : undefined}
           style={{
             gridColumn: 2,
             gridRow: `${contentRow} / ${endRow}`,
@@ -259,7 +361,19 @@ export function BubbleTimeline({
             onMergeVisualUp={() => onMergeVisualUp(pair.id)}
             onMergeVisualDown={() => onMergeVisualDown(pair.id)}
             imageId={pair.visual.imageId}
-            onImageChange={(imgId) => onUpdateImage(pair.id, imgId)}
+            onImageChange={onUpdateImage && ((imgId) => onUpdateImage(pair.id, imgId))}
+            locked={locked}
+            readOnly={readOnly}
+            shareToken={shareToken}
+            commentCount={commentCounts.get(pair.visual.id)}
+            canComment={canComment}
+            onComment={onComment && ((range) => onComment({ bubbleId: pair.visual.id, side: 'visual', range }))}
+            suggestions={suggestions.get(pair.visual.id)}
+            onAcceptSuggestion={onAcceptSuggestion}
+            onRejectSuggestion={onRejectSuggestion}
+            onFocusChange={(focused) =>
+              setFocusedVisualPairId((current) => (focused ? pair.id : current === pair.id ? null : current))
+            }
           />
         </div>
       );
@@ -311,6 +425,7 @@ export function BubbleTimeline({
                     type="number"
                     value={totalDuration}
                     onChange={(e) => onDurationChange(Math.max(1, Number(e.target.value)))}
+                    readOnly={readOnly}
                     className="w-14 text-sm rounded px-1.5 py-0.5 border outline-none bg-surface-sunken text-text-primary border-stroke focus:border-accent text-center"
                     min={1}
                     step={10}
@@ -322,7 +437,7 @@ export function BubbleTimeline({
 
             {/* Single CSS Grid for all pairs */}
             <div
-              className="px-4"
+              className="relative px-4"
               style={{
                 display: 'grid',
                 gridTemplateColumns: '1fr 1fr',
@@ -331,6 +446,12 @@ export function BubbleTimeline({
               }}
             >
               {gridItems}
+              {playheadTime !== undefined && (
+                <div
+                  ref={playheadRef}
+                  className="absolute left-2 right-2 z-30 h-0.5 -translate-y-1/2 rounded-full pointer-events-none bg-accent shadow-[0_0_6px] shadow-accent"
+                />
+              )}
             </div>
 
             {/* Filler: remaining time */}
@@ -0,0 +1,30 @@
+import { MessageSquare, MessageSquarePlus } from 'lucide-react';
+
+interface CommentBadgeProps {
+  /** Open threads on the bubble */
+  count: number;
+  /** Offer starting a thread (on hover) when there is none yet */
+  canComment: boolean;
+  onClick: () => void;
+}
+
+/** Bottom-right corner of a bubble: its open comment count, or a hover button to comment */
+export function CommentBadge({ count, canComment, onClick }: CommentBadgeProps) {
+  if (count === 0 && !canComment) return null;
+  return (
+    <button
+      className={`absolute -bottom-2 right-4 z-20 flex items-center gap-1 px-1.5 rounded-full text-[10px] leading-4 shadow-sm transition-opacity ${
+        count > 0
+          ? 'bg-accent text-white'
+          : 'opacity-0 group-hover:opacity-100 bg-surface-overlay text-text-secondary hover:text-text-primary'
+      }`}
+      // Keep focus (and any text selection) in the bubble
+      onMouseDown={(e) => e.preventDefault()}
+      onClick={(e) => { e.stopPropagation(); onClick(); }}
+      title={count > 0 ? `${count} open comment${count !== 1 ? 's' : ''}` : 'Comment'}
+    >
+      {count > 0 ? <MessageSquare size={10} /> : <MessageSquarePlus size={10} />}
+      {count > 0 && count}
+    </button>
+  );
+}
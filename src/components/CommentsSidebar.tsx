@@ -0,0 +1,251 @@
+import { useEffect, useRef, useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import { X, MessagesSquare, Check, RotateCcw, Trash2 } from 'lucide-react';
+import type { BubblePair, CommentAnchor } from '../types/script';
+import type { CommentThread } from '../hooks/useComments';
+import { formatTime, getCumulativeTimes } from '../utils/timing';
+
+interface CommentsSidebarProps {
+  scriptId: string;
+  threads: CommentThread[];
+  pairs: BubblePair[];
+  /** Bubble to start a thread on — its existing threads are highlighted */
+  draft: CommentAnchor | null;
+  onCancelDraft: () => void;
+  canComment: boolean;
+  onClose: () => void;
+}
+
+type Filter = 'open' | 'resolved';
+
+interface BubbleLocation {
+  pairIndex: number;
+  time: number;
+  content: string;
+}
+
+/** Where each bubble sits in the timeline, to label and order threads */
+function locateBubbles(pairs: BubblePair[]): Map<string, BubbleLocation> {
+  const times = getCumulativeTimes(pairs);
+  const locations = new Map<string, BubbleLocation>();
+  pairs.forEach((pair, i) => {
+    locations.set(pair.text.id, { pairIndex: i, time: times[i], content: pair.text.content });
+    locations.set(pair.visual.id, { pairIndex: i, time: times[i], content: pair.visual.content });
+  });
+  return locations;
+}
+
+function anchorLabel(side: CommentAnchor['side'], location: BubbleLocation | undefined): string {
+  if (!location) return 'Removed segment';
+  return `${side === 'text' ? 'Voice' : 'Visual'} · ${formatTime(location.time)}`;
+}
+
+/** What the thread is about: the commented text, or the start of the bubble */
+function AnchorQuote({ range, content }: { range?: CommentAnchor['range']; content?: string }) {
+  const text = range?.quote ?? content;
+  if (!text) return null;
+  return (
+    <div className={`text-[11px] italic text-text-muted border-l-2 border-stroke pl-2 ${range ? '' : 'line-clamp-2'}`}>
+      {text}
+    </div>
+  );
+}
+
+interface ThreadCardProps {
+  thread: CommentThread;
+  location: BubbleLocation | undefined;
+  highlighted: boolean;
+  canComment: boolean;
+}
+
+function ThreadCard({ thread, location, highlighted, canComment }: ThreadCardProps) {
+  const reply = useMutation(api.comments.reply);
+  const setResolved = useMutation(api.comments.setResolved);
+  const removeComment = useMutation(api.comments.remove);
+  const [replyBody, setReplyBody] = useState('');
+  const cardRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (highlighted) cardRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [highlighted]);
+
+  function handleReply() {
+    if (!replyBody.trim()) return;
+    reply({ parentId: thread._id, body: replyBody }).then(
+      () => setReplyBody(''),
+      (err) => console.error('Reply failed:', err)
+    );
+  }
+
+  function handleRemove(id: string, isRoot: boolean) {
+    if (isRoot && !window.confirm('Delete this thread and all its replies?')) return;
+    removeComment({ id: id as never }).catch(console.error);
+  }
+
+  const comments = [thread, ...thread.replies];
+
+  return (
+    <div
+      ref={cardRef}
+      className={`rounded-lg border px-3 py-2 space-y-2 bg-surface-overlay ${
+        highlighted ? 'border-accent' : 'border-stroke-subtle'
+      }`}
+    >
+      <div className="flex items-center gap-2">
+        <span className="flex-1 text-[10px] font-medium uppercase tracking-wider text-text-muted">
+          {anchorLabel(thread.side, location)}
+        </span>
+        {canComment && (
+          <button
+            className="flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] text-text-secondary hover:bg-surface-hover"
+            onClick={() => setResolved({ id: thread._id, resolved: !thread.resolvedAt }).catch(console.error)}
+          >
+            {thread.resolvedAt ? <RotateCcw size={10} /> : <Check size={10} />}
+            {thread.resolvedAt ? 'Reopen' : 'Resolve'}
+          </button>
+        )}
+      </div>
+      <AnchorQuote range={thread.range} content={location?.content} />
+      {comments.map((comment, i) => (
+        <div key={comment._id} className="group text-xs">
+          <div className="flex items-center gap-2">
+            <span className="font-medium text-text-primary truncate">{comment.authorName}</span>
+            <span className="flex-1 text-[10px] text-text-muted">{new Date(comment.createdAt).toLocaleString()}</span>
+            {comment.canRemove && (
+              <button
+                className="p-0.5 rounded opacity-0 group-hover:opacity-100 transition-opacity text-text-muted hover:text-danger"
+                onClick={() => handleRemove(comment._id, i === 0)}
+                title={i === 0 ? 'Delete thread' : 'Delete reply'}
+              >
+                <Trash2 size={11} />
+              </button>
+            )}
+          </div>
+          <p className="whitespace-pre-wrap text-text-secondary">{comment.body}</p>
+        </div>
+      ))}
+      {canComment && !thread.resolvedAt && (
+        <input
+          type="text"
+          value={replyBody}
+          onChange={(e) => setReplyBody(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleReply(); }}
+          placeholder="Reply..."
+          className="w-full text-xs rounded px-2 py-1 border outline-none bg-surface-sunken text-text-primary border-stroke focus:border-accent"
+        />
+      )}
+    </div>
+  );
+}
+
+/** Review comments on the open script, next to the timeline */
+export function CommentsSidebar({ scriptId, threads, pairs, draft, onCancelDraft, canComment, onClose }: CommentsSidebarProps) {
+  const addComment = useMutation(api.comments.add);
+  const [filter, setFilter] = useState<Filter>('open');
+  const [body, setBody] = useState('');
+
+  const locations = locateBubbles(pairs);
+  const openCount = threads.filter((t) => !t.resolvedAt).length;
+  // Timeline order; threads on removed bubbles go last
+  const visible = threads
+    .filter((t) => (filter === 'open') === !t.resolvedAt)
+    .sort((a, b) =>
+      (locations.get(a.bubbleId)?.pairIndex ?? Infinity) - (locations.get(b.bubbleId)?.pairIndex ?? Infinity) ||
+      a.createdAt - b.createdAt
+    );
+
+  function handleAdd() {
+    if (!draft || !body.trim()) return;
+    addComment({ scriptId: scriptId as never, ...draft, body }).then(
+      () => { setBody(''); setFilter('open'); onCancelDraft(); },
+      (err) => console.error('Comment failed:', err)
+    );
+  }
+
+  const filterButton = (value: Filter, label: string) => (
+    <button
+      className={`px-2 py-0.5 rounded text-xs transition-colors ${
+        filter === value ? 'bg-surface-active text-accent-soft' : 'text-text-secondary hover:bg-surface-hover'
+      }`}
+      onClick={() => setFilter(value)}
+    >
+      {label}
+    </button>
+  );
+
+  const scrollbarClass = `custom-scrollbar scrollbar-light dark:scrollbar-dark`;
+
+  return (
+    <aside className="w-80 shrink-0 flex flex-col border-l border-stroke-subtle bg-surface-alt text-text-primary">
+      {/* Title bar */}
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-stroke-subtle">
+        <MessagesSquare size={15} className="text-text-secondary" />
+        <span className="text-sm font-medium flex-1">Comments</span>
+        <button className="p-1 rounded text-text-muted hover:text-text-primary" onClick={onClose}>
+          <X size={15} />
+        </button>
+      </div>
+      <div className="flex items-center gap-1 px-4 py-2 border-b border-stroke-subtle">
+        {filterButton('open', `Open (${openCount})`)}
+        {filterButton('resolved', `Resolved (${threads.length - openCount})`)}
+      </div>
+
+      <div className={`flex-1 overflow-y-auto p-3 space-y-2 ${scrollbarClass}`}>
+        {draft && canComment && (
+          <div className="rounded-lg border border-accent px-3 py-2 space-y-2 bg-surface-overlay">
+            <span className="block text-[10px] font-medium uppercase tracking-wider text-text-muted">
+              New comment · {anchorLabel(draft.side, locations.get(draft.bubbleId))}
+            </span>
+            <AnchorQuote range={draft.range} content={locations.get(draft.bubbleId)?.content} />
+            <textarea
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) handleAdd();
+                if (e.key === 'Escape') onCancelDraft();
+              }}
+              placeholder="Add a comment..."
+              rows={3}
+              className="w-full text-xs rounded px-2 py-1 border outline-none resize-none bg-surface-sunken text-text-primary border-stroke focus:border-accent"
+              autoFocus
+            />
+            <div className="flex justify-end gap-2">
+              <button
+                className="px-3 py-1 rounded text-xs text-text-secondary hover:bg-surface-hover"
+                onClick={onCancelDraft}
+              >
+                Cancel
+              </button>
+              <button
+                className="px-3 py-1 rounded text-xs font-medium bg-accent text-white hover:opacity-90 disabled:opacity-50"
+                onClick={handleAdd}
+                disabled={!body.trim()}
+              >
+                Comment
+              </button>
+            </div>
+          </div>
+        )}
+        {visible.length === 0 && !(draft && canComment) && (
+          <p className="px-1 py-2 text-xs text-text-muted">
+            {filter === 'open'
+              ? canComment
+                ? 'No open comments. Use the speech bubble on a segment to start one.'
+                : 'No open comments.'
+              : 'No resolved comments.'}
+          </p>
+        )}
+        {visible.map((thread) => (
+          <ThreadCard
+            key={thread._id}
+            thread={thread}
+            location={locations.get(thread.bubbleId)}
+            highlighted={thread.bubbleId === draft?.bubbleId}
+            canComment={canComment}
+          />
+        ))}
+      </div>
+    </aside>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { AlertTriangle, GitCompare, GitMerge } from 'lucide-react';
+import type { Script } from '../types/script';
+import { formatTime, getRuntime } from '../utils/timing';
+import { mergeScripts } from '../utils/mergeScripts';
+import { ScriptDiffView } from './ScriptDiffView';
+
+interface ConflictDialogProps {
+  local: Script;
+  remote: Script;
+  base: Script | null;
+  /** Called with the version to keep — saved over the remote one */
+  onResolve: (script: Script) => void;
+}
+
+/**
+ * Shown when this tab's edits were rejected because the script was saved
+ * elsewhere in the meantime. There's no dismissing it: one version has to win.
+ */
+export function ConflictDialog({ local, remote, base, onResolve }: ConflictDialogProps) {
+  const [comparing, setComparing] = useState(false);
+  const merged = mergeScripts(base, local, remote);
+
+  const summary = (script: Script) =>
+    `${script.pairs.length} segments · ${formatTime(getRuntime(script.pairs))}`;
+
+  return (
+    <>
+      <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60">
+        <div className="w-[min(480px,92vw)] rounded-xl border border-stroke-strong shadow-lg bg-surface-overlay text-text-primary">
+          <div className="flex items-center gap-2 px-4 py-3 border-b border-stroke-subtle">
+            <AlertTriangle size={15} className="text-amber-500" />
+            <span className="text-sm font-medium flex-1">This script was changed elsewhere</span>
+          </div>
+
+          <div className="px-4 py-3 space-y-3 text-xs text-text-secondary">
+            <p>
+              "{remote.title}" was saved in another tab or on another device while you were editing.
+              Choose which version to keep.
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="rounded border border-stroke-subtle px-3 py-2">
+                <div className="text-text-primary font-medium">Your version</div>
+                <div className="text-text-muted">{summary(local)}</div>
+              </div>
+              <div className="rounded border border-stroke-subtle px-3 py-2">
+                <div className="text-text-primary font-medium">Their version</div>
+                <div className="text-text-muted">{summary(remote)}</div>
+              </div>
+            </div>
+            <p className="text-text-muted">
+              Merging keeps changes from both sides
+              {merged.conflicts > 0 &&
+                ` — ${merged.conflicts} segment${merged.conflicts !== 1 ? 's' : ''} changed in both keep${merged.conflicts === 1 ? 's' : ''} your version`}
+              .
+            </p>
+          </div>
+
+          <div className="flex items-center gap-2 px-4 py-3 border-t border-stroke-subtle">
+            <button
+              className="flex items-center gap-1.5 px-3 py-1 rounded text-xs text-text-secondary hover:bg-surface-hover"
+              onClick={() => setComparing(true)}
+            >
+              <GitCompare size={12} />
+              Compare
+            </button>
+            <div className="flex-1" />
+            <button
+              className="px-3 py-1 rounded text-xs text-text-secondary hover:bg-surface-hover"
+              onClick={() => onResolve(remote)}
+            >
+              Use theirs
+            </button>
+            <button
+              className="px-3 py-1 rounded text-xs text-text-secondary hover:bg-surface-hover"
+              onClick={() => onResolve(local)}
+            >
+              Keep mine
+            </button>
+            <button
+              className="flex items-center gap-1.5 px-3 py-1 rounded text-xs font-medium bg-accent text-white hover:opacity-90"
+              onClick={() => onResolve(merged.script)}
+            >
+              <GitMerge size={12} />
+              Merge both
+            </button>
+          </div>
+        </div>
+      </div>
+      {comparing && (
+        <ScriptDiffView
+          before={remote}
+          after={local}
+          beforeLabel="Their version"
+          afterLabel="Your version"
+          onClose={() => setComparing(false)}
+        />
+      )}
+    </>
+  );
+}
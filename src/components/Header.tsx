@@ -1,30 +1,90 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
-import { Menu, FileDown, FileUp, Moon, Sun, Info, EyeOff, Plus, Trash2, LogOut, User } from 'lucide-react';
+import { Menu, FileDown, FileUp, Moon, Sun, Info, EyeOff, Plus, Trash2, LogOut, User, Printer, History, Library, Cloud, CloudOff, RefreshCw, AlertTriangle, Share2, MessagesSquare } from 'lucide-react';
 import { useClerk } from '@clerk/clerk-react';
+import { useConvex } from 'convex/react';
+import { api } from '../../convex/_generated/api';
 import { useSettings } from '../hooks/useSettings';
 import { parseScriptMarkdown } from '../utils/parseMarkdown';
+import { parseScriptJson } from '../utils/parseJson';
+import { parseSubtitles } from '../utils/parseSubtitles';
 import { exportToMarkdown, exportToJson, downloadFile } from '../utils/exportMarkdown';
+import { exportToSrt, exportToVtt } from '../utils/exportSubtitles';
+import { exportToFcpxml, exportToEdl, exportToOtio, FRAME_RATES } from '../utils/exportTimeline';
+import { exportToPrintHtml, loadImageDataUrls } from '../utils/exportPrintHtml';
 import { Logo } from './Logo';
-import type { Script, FileEntry } from '../types/script';
+import { VersionHistoryPanel } from './VersionHistoryPanel';
+import { ScriptLibrary } from './ScriptLibrary';
+import { ShareDialog } from './ShareDialog';
+import type { Script, FileEntry, ScriptRole } from '../types/script';
+import { ROLE_LABELS, canEdit } from '../utils/roles';
+import type { SyncStatus } from '../hooks/useStorage';
 
-const MAX_SCRIPTS = 5;
+/** Parse an imported file according to its extension (markdown by default) */
+function parseImportedFile(filename: string, content: string): Script {
+  const extension = filename.toLowerCase().split('.').pop();
+  switch (extension) {
+    case 'json':
+      return parseScriptJson(content);
+    case 'srt':
+    case 'vtt':
+      return parseSubtitles(content, filename.replace(/\.[^.]+$/, ''));
+    default:
+      return parseScriptMarkdown(content);
+  }
+}
+
+/** Download filename derived from the script title */
+function exportFilename(script: Script, extension: string): string {
+  const filename = script.title.replace(/[^a-zA-Z0-9-_ ]/g, '').replace(/\s+/g, '-').toLowerCase();
+  return `${filename || 'script'}.${extension}`;
+}
+
+const SYNC_LABELS: Record<SyncStatus, string> = {
+  synced: 'All changes saved',
+  saving: 'Saving...',
+  offline: 'Offline — changes are kept on this device and sync when you reconnect',
+  error: 'Some changes could not be saved — retrying',
+};
+
+function SyncIndicator({ status, pendingWrites }: { status: SyncStatus; pendingWrites: number }) {
+  const title = pendingWrites > 0 && status !== 'synced'
+    ? `${SYNC_LABELS[status]} (${pendingWrites} pending)`
+    : SYNC_LABELS[status];
+  return (
+    <span className="p-1" title={title}>
+      {status === 'synced' && <Cloud size={15} className="text-text-muted" />}
+      {status === 'saving' && <RefreshCw size={15} className="text-text-secondary animate-spin" />}
+      {status === 'offline' && <CloudOff size={15} className="text-amber-500" />}
+      {status === 'error' && <AlertTriangle size={15} className="text-danger" />}
+    </span>
+  );
+}
 
 interface HeaderProps {
   title: string;
   onTitleChange: (title: string) => void;
+  /** The signed-in user's role on the open script */
+  role: ScriptRole;
   onImport: (script: Script) => void;
   script: Script;
   files: FileEntry[];
   currentFileId: string | null;
   onSwitchFile: (id: string) => void;
-  onNewScript: () => void;
+  onNewScript: (folderId?: string) => void;
   onDeleteFile: (id: string) => void;
+  onRestoreVersion: (script: Script) => void;
+  syncStatus: SyncStatus;
+  pendingWrites: number;
   userName?: string;
+  /** Open comment threads on the script; the toggle is hidden without `onToggleComments` */
+  openComments: number;
+  onToggleComments?: () => void;
 }
 
 export function Header({
   title,
   onTitleChange,
+  role,
   onImport,
   script,
   files,
@@ -32,12 +92,21 @@ export function Header({
   onSwitchFile,
   onNewScript,
   onDeleteFile,
+  onRestoreVersion,
+  syncStatus,
+  pendingWrites,
   userName,
+  openComments,
+  onToggleComments,
 }: HeaderProps) {
-  const { settings, toggleTheme, toggleInfoMode, setZoom } = useSettings();
+  const { settings, toggleTheme, toggleInfoMode, setZoom, setFrameRate } = useSettings();
   const { signOut } = useClerk();
+  const convex = useConvex();
   const [menuOpen, setMenuOpen] = useState(false);
   const [exportMenuOpen, setExportMenuOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [libraryOpen, setLibraryOpen] = useState(false);
+  const [shareOpen, setShareOpen] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -65,9 +134,12 @@ export function Header({
       const reader = new FileReader();
       reader.onload = (ev) => {
         const content = ev.target?.result as string;
-        if (content) {
-          const parsed = parseScriptMarkdown(content);
-          onImport(parsed);
+        if (!content) return;
+        try {
+          onImport(parseImportedFile(file.name, content));
+        } catch (err) {
+          console.error('Import failed:', err);
+          alert(`Could not import ${file.name}: ${(err as Error).message}`);
         }
       };
       reader.readAsText(file);
@@ -78,21 +150,73 @@ export function Header({
 
   const handleExportMarkdown = useCallback(() => {
     const md = exportToMarkdown(script);
-    const filename = script.title.replace(/[^a-zA-Z0-9-_ ]/g, '').replace(/\s+/g, '-').toLowerCase();
-    downloadFile(md, `${filename || 'script'}.md`, 'text/markdown');
+    downloadFile(md, exportFilename(script, 'md'), 'text/markdown');
     setMenuOpen(false);
     setExportMenuOpen(false);
   }, [script]);
 
   const handleExportJson = useCallback(() => {
     const json = exportToJson(script);
-    const filename = script.title.replace(/[^a-zA-Z0-9-_ ]/g, '').replace(/\s+/g, '-').toLowerCase();
-    downloadFile(json, `${filename || 'script'}.json`, 'application/json');
+    downloadFile(json, exportFilename(script, 'json'), 'application/json');
+    setMenuOpen(false);
+    setExportMenuOpen(false);
+  }, [script]);
+
+  const handleExportSrt = useCallback(() => {
+    downloadFile(exportToSrt(script), exportFilename(script, 'srt'), 'application/x-subrip');
     setMenuOpen(false);
     setExportMenuOpen(false);
   }, [script]);
 
-  const sortedFiles = [...files].sort((a, b) => b.updatedAt - a.updatedAt);
+  const handleExportVtt = useCallback(() => {
+    downloadFile(exportToVtt(script), exportFilename(script, 'vtt'), 'text/vtt');
+    setMenuOpen(false);
+    setExportMenuOpen(false);
+  }, [script]);
+
+  const handleExportFcpxml = useCallback(() => {
+    downloadFile(exportToFcpxml(script, settings.frameRate), exportFilename(script, 'fcpxml'), 'application/xml');
+    setMenuOpen(false);
+    setExportMenuOpen(false);
+  }, [script, settings.frameRate]);
+
+  const handleExportEdl = useCallback(() => {
+    downloadFile(exportToEdl(script, settings.frameRate), exportFilename(script, 'edl'), 'text/plain');
+    setMenuOpen(false);
+    setExportMenuOpen(false);
+  }, [script, settings.frameRate]);
+
+  const handleExportOtio = useCallback(() => {
+    downloadFile(exportToOtio(script, settings.frameRate), exportFilename(script, 'otio'), 'application/json');
+    setMenuOpen(false);
+    setExportMenuOpen(false);
+  }, [script, settings.frameRate]);
+
+  // Print layout with image thumbnails inlined, so the page is self-contained
+  const buildPrintHtml = useCallback(async (autoPrint: boolean) => {
+    const scriptId = currentFileId && !currentFileId.startsWith('pending-') ? currentFileId as never : undefined;
+    const imageUrls = await loadImageDataUrls(script, (storageId) =>
+      convex.query(api.images.getImageUrl, { storageId: storageId as never, scriptId })
+    );
+    return exportToPrintHtml(script, imageUrls, { autoPrint });
+  }, [convex, script, currentFileId]);
+
+  const handleExportHtml = useCallback(async () => {
+    setMenuOpen(false);
+    setExportMenuOpen(false);
+    downloadFile(await buildPrintHtml(false), exportFilename(script, 'html'), 'text/html');
+  }, [buildPrintHtml, script]);
+
+  const handlePrint = useCallback(async () => {
+    setMenuOpen(false);
+    // Open the window synchronously so popup blockers treat it as user-initiated
+    const win = window.open('', '_blank');
+    if (!win) return;
+    const html = await buildPrintHtml(true);
+    win.document.open();
+    win.document.write(html);
+    win.document.close();
+  }, [buildPrintHtml]);
 
   return (
     <header className="relative flex items-center border-b border-stroke-strong px-6 py-3 bg-surface-alt">
@@ -100,11 +224,12 @@ export function Header({
       <Logo height={18} className="text-text-primary shrink-0" onBubbleClick={toggleTheme} onBeatsClick={toggleInfoMode} />
 
       {/* Title — absolutely centered on the header */}
-      <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+      <div className="absolute inset-0 flex items-center justify-center gap-2 pointer-events-none">
         <input
           type="text"
           value={title}
           onChange={(e) => onTitleChange(e.target.value)}
+          readOnly={!canEdit(role)}
           onKeyDown={(e) => {
             if (e.key === 'Enter' || e.key === 'Escape') {
               e.preventDefault();
@@ -114,12 +239,34 @@ export function Header({
           className="pointer-events-auto bg-transparent text-sm font-medium outline-none border-b border-transparent px-1 py-0.5 text-center min-w-48 text-text-primary focus:border-accent"
           placeholder="Script title..."
         />
+        {role !== 'owner' && (
+          <span className="pointer-events-auto px-1.5 rounded-full text-[10px] leading-4 bg-surface-active text-accent-soft" title="Shared with you">
+            {ROLE_LABELS[role]}
+          </span>
+        )}
       </div>
 
       <div className="flex-1" />
 
-      {/* Right side: zoom slider + hamburger */}
+      {/* Right side: sync status + zoom slider + hamburger */}
       <div className="flex items-center gap-2 shrink-0">
+        <SyncIndicator status={syncStatus} pendingWrites={pendingWrites} />
+
+        {onToggleComments && (
+          <button
+            onClick={onToggleComments}
+            className="relative p-2 rounded-lg transition-colors hover:bg-surface-hover text-text-secondary"
+            title="Comments"
+          >
+            <MessagesSquare size={16} />
+            {openComments > 0 && (
+              <span className="absolute top-0.5 right-0.5 min-w-3.5 px-0.5 rounded-full text-[9px] leading-3.5 text-center bg-accent text-white">
+                {openComments}
+              </span>
+            )}
+          </button>
+        )}
+
         <input
           type="range"
           min={0}
@@ -133,7 +280,7 @@ export function Header({
         <input
           ref={fileInputRef}
           type="file"
-          accept=".md,.txt"
+          accept=".md,.txt,.json,.srt,.vtt"
           className="hidden"
           onChange={handleFileSelected}
         />
@@ -149,58 +296,57 @@ export function Header({
 
           {menuOpen && (
             <div className="absolute right-0 top-full mt-1 w-56 rounded-xl border border-stroke-strong shadow-lg z-50 py-1 bg-surface-overlay">
-              {/* Script slots */}
-              <div className="my-1 h-px bg-stroke-subtle" />
-              {Array.from({ length: Math.max(sortedFiles.length, MAX_SCRIPTS) }).map((_, i) => {
-                const file = sortedFiles[i];
-                if (file) {
-                  const isActive = file.id === currentFileId;
-                  return (
-                    <div
-                      key={file.id}
-                      className={`group flex items-center gap-2 px-4 py-2 text-sm cursor-pointer ${
-                        isActive
-                          ? 'bg-surface-active text-accent-soft'
-                          : 'text-text-primary hover:bg-surface-hover'
-                      }`}
-                      onClick={() => { if (!isActive) { onSwitchFile(file.id); setMenuOpen(false); } }}
-                    >
-                      <span className="truncate flex-1">{file.title || 'Untitled'}</span>
-                      {!isActive && (
-                        <button
-                          className="opacity-0 group-hover:opacity-100 p-0.5 rounded transition-opacity text-text-muted hover:text-danger"
-                          onClick={(e) => { e.stopPropagation(); onDeleteFile(file.id); }}
-                        >
-                          <Trash2 size={13} />
-                        </button>
-                      )}
-                    </div>
-                  );
-                }
+              {/* Recent scripts */}
+              <div className="px-4 pt-1.5 pb-1 text-[10px] font-medium uppercase tracking-wider text-text-muted">
+                Recent
+              </div>
+              {files.map((file) => {
+                const isActive = file.id === currentFileId;
                 return (
-                  <div key={`empty-${i}`} className="group flex items-center gap-2 px-4 py-2 text-sm text-text-muted">
-                    <span className="flex-1">Empty</span>
-                    <button
-                      className="opacity-0 group-hover:opacity-100 p-0.5 rounded transition-opacity text-text-muted hover:text-text-secondary"
-                      onClick={() => { onNewScript(); setMenuOpen(false); }}
-                    >
-                      <Plus size={13} />
-                    </button>
+                  <div
+                    key={file.id}
+                    className={`group flex items-center gap-2 px-4 py-2 text-sm cursor-pointer ${
+                      isActive
+                        ? 'bg-surface-active text-accent-soft'
+                        : 'text-text-primary hover:bg-surface-hover'
+                    }`}
+                    onClick={() => { if (!isActive) { onSwitchFile(file.id); setMenuOpen(false); } }}
+                  >
+                    <span className="truncate flex-1">{file.title || 'Untitled'}</span>
+                    {!isActive && (
+                      <button
+                        className="opacity-0 group-hover:opacity-100 p-0.5 rounded transition-opacity text-text-muted hover:text-danger"
+                        onClick={(e) => { e.stopPropagation(); onDeleteFile(file.id); }}
+                        title="Move to trash"
+                      >
+                        <Trash2 size={13} />
+                      </button>
+                    )}
                   </div>
                 );
               })}
               <div className="my-1 h-px bg-stroke-subtle" />
 
               <button
-                className={`w-full flex items-center gap-3 px-4 py-2.5 text-sm transition-colors ${
-                  files.length >= MAX_SCRIPTS
-                    ? 'text-text-muted cursor-not-allowed'
-                    : 'text-text-primary hover:bg-surface-hover'
-                }`}
-                onClick={files.length >= MAX_SCRIPTS ? undefined : handleImport}
+                className="w-full flex items-center gap-3 px-4 py-2.5 text-sm transition-colors text-text-primary hover:bg-surface-hover"
+                onClick={() => { onNewScript(); setMenuOpen(false); }}
+              >
+                <Plus size={15} />
+                New script
+              </button>
+              <button
+                className="w-full flex items-center gap-3 px-4 py-2.5 text-sm transition-colors text-text-primary hover:bg-surface-hover"
+                onClick={() => { setLibraryOpen(true); setMenuOpen(false); }}
+              >
+                <Library size={15} />
+                Script library...
+              </button>
+              <button
+                className="w-full flex items-center gap-3 px-4 py-2.5 text-sm transition-colors text-text-primary hover:bg-surface-hover"
+                onClick={handleImport}
               >
                 <FileUp size={15} />
-                {files.length >= MAX_SCRIPTS ? 'Clear a slot to import' : 'Import script...'}
+                Import script...
               </button>
 
               {/* Export submenu */}
@@ -226,10 +372,88 @@ export function Header({
                     >
                       JSON (.json)
                     </button>
+                    <button
+                      className="w-full text-left px-3 py-2 text-sm transition-colors rounded text-text-primary hover:bg-surface-hover"
+                      onClick={handleExportSrt}
+                    >
+                      Subtitles (.srt)
+                    </button>
+                    <button
+                      className="w-full text-left px-3 py-2 text-sm transition-colors rounded text-text-primary hover:bg-surface-hover"
+                      onClick={handleExportVtt}
+                    >
+                      WebVTT (.vtt)
+                    </button>
+
+                    <button
+                      className="w-full text-left px-3 py-2 text-sm transition-colors rounded text-text-primary hover:bg-surface-hover"
+                      onClick={handleExportHtml}
+                    >
+                      A/V script (.html)
+                    </button>
+
+                    {/* Editor timeline markers */}
+                    <div className="my-1 h-px bg-stroke-subtle" />
+                    <label className="flex items-center justify-between px-3 py-1.5 text-xs text-text-muted">
+                      Frame rate
+                      <select
+                        value={settings.frameRate}
+                        onChange={(e) => setFrameRate(Number(e.target.value))}
+                        className="rounded px-1 py-0.5 border outline-none bg-surface-sunken text-text-primary border-stroke focus:border-accent"
+                      >
+                        {FRAME_RATES.map((fps) => (
+                          <option key={fps} value={fps}>{fps} fps</option>
+                        ))}
+                      </select>
+                    </label>
+                    <button
+                      className="w-full text-left px-3 py-2 text-sm transition-colors rounded text-text-primary hover:bg-surface-hover"
+                      onClick={handleExportFcpxml}
+                    >
+                      Final Cut Pro (.fcpxml)
+                    </button>
+                    <button
+                      className="w-full text-left px-3 py-2 text-sm transition-colors rounded text-text-primary hover:bg-surface-hover"
+                      onClick={handleExportEdl}
+                    >
+                      CMX3600 EDL (.edl)
+                    </button>
+                    <button
+                      className="w-full text-left px-3 py-2 text-sm transition-colors rounded text-text-primary hover:bg-surface-hover"
+                      onClick={handleExportOtio}
+                    >
+                      OpenTimelineIO (.otio)
+                    </button>
                   </div>
                 )}
               </div>
 
+              <button
+                className="w-full flex items-center gap-3 px-4 py-2.5 text-sm transition-colors text-text-primary hover:bg-surface-hover"
+                onClick={handlePrint}
+              >
+                <Printer size={15} />
+                Print A/V script...
+              </button>
+              <button
+                className="w-full flex items-center gap-3 px-4 py-2.5 text-sm transition-colors text-text-primary hover:bg-surface-hover disabled:opacity-40 disabled:pointer-events-none"
+                onClick={() => { setHistoryOpen(true); setMenuOpen(false); }}
+                disabled={!currentFileId || currentFileId.startsWith('pending-')}
+              >
+                <History size={15} />
+                Version history...
+              </button>
+              {role === 'owner' && (
+                <button
+                  className="w-full flex items-center gap-3 px-4 py-2.5 text-sm transition-colors text-text-primary hover:bg-surface-hover disabled:opacity-40 disabled:pointer-events-none"
+                  onClick={() => { setShareOpen(true); setMenuOpen(false); }}
+                  disabled={!currentFileId || currentFileId.startsWith('pending-')}
+                >
+                  <Share2 size={15} />
+                  Share...
+                </button>
+              )}
+
               <div className="my-1 h-px bg-stroke-subtle" />
 
               <button
@@ -265,6 +489,34 @@ export function Header({
           )}
         </div>
       </div>
+
+      {libraryOpen && (
+        <ScriptLibrary
+          currentFileId={currentFileId}
+          onOpen={onSwitchFile}
+          onNewScript={onNewScript}
+          onDelete={onDeleteFile}
+          onClose={() => setLibraryOpen(false)}
+        />
+      )}
+
+      {historyOpen && currentFileId && (
+        <VersionHistoryPanel
+          scriptId={currentFileId}
+          script={script}
+          onRestore={onRestoreVersion}
+          onClose={() => setHistoryOpen(false)}
+          readOnly={!canEdit(role)}
+        />
+      )}
+
+      {shareOpen && currentFileId && (
+        <ShareDialog
+          scriptId={currentFileId}
+          title={title}
+          onClose={() => setShareOpen(false)}
+        />
+      )}
     </header>
   );
 }
@@ -0,0 +1,68 @@
+import { Play, Pause, Square, MonitorPlay, Mic } from 'lucide-react';
+import type { Playback } from '../hooks/usePlayback';
+import { formatTime } from '../utils/timing';
+
+interface PlaybackBarProps {
+  playback: Playback;
+  runtime: number;
+  onOpenTeleprompter: () => void;
+  /** Set when the script can be changed — measuring read times sets durations */
+  onRehearse?: () => void;
+}
+
+/** Transport for rehearsing the script against its timing */
+export function PlaybackBar({ playback, runtime, onOpenTeleprompter, onRehearse }: PlaybackBarProps) {
+  const { time, playing, toggle, seek, stop } = playback;
+
+  return (
+    <div className="px-6 py-1.5 flex items-center gap-3 border-t border-stroke-subtle bg-surface-alt text-text-secondary">
+      <button
+        className="p-1 rounded hover:bg-surface-hover hover:text-text-primary disabled:opacity-50"
+        onClick={toggle}
+        disabled={runtime <= 0}
+        title={playing ? 'Pause' : 'Play'}
+      >
+        {playing ? <Pause size={14} /> : <Play size={14} />}
+      </button>
+      <button
+        className="p-1 rounded hover:bg-surface-hover hover:text-text-primary disabled:opacity-50"
+        onClick={stop}
+        disabled={!playing && time === 0}
+        title="Stop"
+      >
+        <Square size={12} />
+      </button>
+      <span className="text-xs font-mono tabular-nums">
+        {formatTime(time)} / {formatTime(runtime)}
+      </span>
+      <input
+        type="range"
+        min={0}
+        max={runtime}
+        step={0.1}
+        value={time}
+        onChange={(e) => seek(Number(e.target.value))}
+        className="flex-1 h-0.5 accent-accent"
+        disabled={runtime <= 0}
+      />
+      {onRehearse && (
+        <button
+          className="flex items-center gap-1.5 px-2 py-0.5 rounded text-xs hover:bg-surface-hover hover:text-text-primary"
+          onClick={onRehearse}
+          title="Read the script aloud to measure real read times"
+        >
+          <Mic size={13} />
+          Rehearse
+        </button>
+      )}
+      <button
+        className="flex items-center gap-1.5 px-2 py-0.5 rounded text-xs hover:bg-surface-hover hover:text-text-primary"
+        onClick={onOpenTeleprompter}
+        title="Full-screen teleprompter"
+      >
+        <MonitorPlay size={13} />
+        Teleprompter
+      </button>
+    </div>
+  );
+}
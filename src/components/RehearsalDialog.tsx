@@ -0,0 +1,251 @@
+import { useEffect, useState } from 'react';
+import { Mic, X, RotateCcw } from 'lucide-react';
+import type { BubblePair } from '../types/script';
+import { formatTime } from '../utils/timing';
+import { readablePairs, compareToEstimates, measuredWordsPerMinute } from '../utils/rehearsal';
+
+interface RehearsalDialogProps {
+  pairs: BubblePair[];
+  /** Called with the measured read times to set (pair id → seconds) */
+  onApply: (durations: Map<string, number>) => void;
+  onClose: () => void;
+}
+
+type Phase = 'ready' | 'reading' | 'review';
+
+/** Measured times are kept to a tenth of a second */
+function toSeconds(ms: number): number {
+  return Math.round(ms / 100) / 10;
+}
+
+function formatDelta(seconds: number): string {
+  return `${seconds >= 0 ? '+' : '−'}${Math.abs(seconds).toFixed(1)}s`;
+}
+
+/**
+ * Rehearsal: the narrator reads the script aloud and taps Space at the end
+ * of each bubble. The measured read times are compared with the flat-WPM
+ * estimates and can be applied as manual durations.
+ */
+export function RehearsalDialog({ pairs, onApply, onClose }: RehearsalDialogProps) {
+  // The bubbles to read, as they were when the rehearsal began
+  const [sequence] = useState(() => readablePairs(pairs));
+  const [phase, setPhase] = useState<Phase>('ready');
+  const [index, setIndex] = useState(0);
+  const [startedAt, setStartedAt] = useState(0);
+  const [now, setNow] = useState(0);
+  const [measured, setMeasured] = useState(() => new Map<string, number>());
+  const [skipped, setSkipped] = useState(() => new Set<string>());
+
+  // Space taps shouldn't also press whatever button opened the rehearsal
+  useEffect(() => {
+    if (document.activeElement instanceof HTMLElement) document.activeElement.blur();
+  }, []);
+
+  // Live timer for the bubble being read
+  useEffect(() => {
+    if (phase !== 'reading') return;
+    const timer = setInterval(() => setNow(performance.now()), 100);
+    return () => clearInterval(timer);
+  }, [phase]);
+
+  useEffect(() => {
+    function handleKeyDown(e: KeyboardEvent) {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        // Stopping part-way still shows what was measured
+        if (phase === 'reading' && measured.size > 0) setPhase('review');
+        else onClose();
+        return;
+      }
+      if (phase === 'review') return;
+      const t = performance.now();
+      if (e.key === ' ') {
+        e.preventDefault();
+        if (e.repeat) return;
+        if (phase === 'ready') {
+          // Nothing to read — the dialog only explains that
+          if (sequence.length === 0) return;
+          setPhase('reading');
+          setIndex(0);
+          setStartedAt(t);
+          setNow(t);
+          return;
+        }
+        const next = new Map(measured);
+        next.set(sequence[index].id, toSeconds(t - startedAt));
+        setMeasured(next);
+        if (index === sequence.length - 1) {
+          setPhase('review');
+        } else {
+          setIndex(index + 1);
+          setStartedAt(t);
+          setNow(t);
+        }
+      } else if (e.key === 'Backspace' && phase === 'reading' && index > 0) {
+        // Re-read the previous bubble
+        e.preventDefault();
+        const next = new Map(measured);
+        next.delete(sequence[index - 1].id);
+        setMeasured(next);
+        setIndex(index - 1);
+        setStartedAt(t);
+        setNow(t);
+      }
+    }
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [phase, index, startedAt, measured, sequence, onClose]);
+
+  function restart() {
+    setMeasured(new Map());
+    setSkipped(new Set());
+    setIndex(0);
+    setPhase('ready');
+  }
+
+  function handleApply() {
+    const durations = new Map([...measured].filter(([pairId]) => !skipped.has(pairId)));
+    onApply(durations);
+    onClose();
+  }
+
+  function toggleRow(pairId: string) {
+    setSkipped((current) => {
+      const next = new Set(current);
+      if (next.has(pairId)) next.delete(pairId);
+      else next.add(pairId);
+      return next;
+    });
+  }
+
+  const rows = phase === 'review' ? compareToEstimates(pairs, measured) : [];
+  const applying = rows.filter((row) => !skipped.has(row.pairId));
+  const totals = rows.reduce(
+    (sum, row) => ({ estimated: sum.estimated + row.estimated, measured: sum.measured + row.measured }),
+    { estimated: 0, measured: 0 }
+  );
+  const wpm = measuredWordsPerMinute(rows);
+  const current = sequence[index];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60">
+      <div className="w-[min(720px,94vw)] max-h-[90vh] flex flex-col rounded-xl border border-stroke-strong shadow-lg bg-surface-overlay text-text-primary">
+        {/* Title bar */}
+        <div className="flex items-center gap-2 px-4 py-3 border-b border-stroke-subtle">
+          <Mic size={15} className={phase === 'reading' ? 'text-danger' : 'text-text-secondary'} />
+          <span className="text-sm font-medium flex-1">Rehearsal</span>
+          {phase === 'reading' && (
+            <span className="text-xs font-mono tabular-nums text-text-secondary">
+              {index + 1} / {sequence.length} · {formatTime((now - startedAt) / 1000)}
+            </span>
+          )}
+          <button className="p-1 rounded text-text-muted hover:text-text-primary" onClick={onClose}>
+            <X size={15} />
+          </button>
+        </div>
+
+        {phase === 'ready' && (
+          <div className="px-4 py-6 space-y-2 text-sm text-text-secondary text-center">
+            {sequence.length === 0 ? (
+              <p>There's no text to read yet.</p>
+            ) : (
+              <>
+                <p>Read the script aloud at your normal pace.</p>
+                <p>
+                  Press <kbd className="px-1.5 rounded border border-stroke bg-surface-sunken">Space</kbd> to start,
+                  then again each time you finish a segment.
+                </p>
+                <p className="text-xs text-text-muted">
+                  Backspace re-reads the previous segment · Esc stops · pauses keep their set length
+                </p>
+              </>
+            )}
+          </div>
+        )}
+
+        {phase === 'reading' && current && (
+          <div className="px-6 py-6 space-y-4 overflow-y-auto custom-scrollbar scrollbar-light dark:scrollbar-dark">
+            {index > 0 && (
+              <p className="text-sm text-text-muted line-clamp-2">{sequence[index - 1].text.content}</p>
+            )}
+            <p className="text-2xl leading-relaxed whitespace-pre-wrap">{current.text.content}</p>
+            {index < sequence.length - 1 && (
+              <p className="text-sm text-text-muted line-clamp-2">{sequence[index + 1].text.content}</p>
+            )}
+          </div>
+        )}
+
+        {phase === 'review' && (
+          <>
+            <div className="px-4 py-2 text-xs text-text-secondary border-b border-stroke-subtle">
+              Measured {formatTime(totals.measured)} against an estimated {formatTime(totals.estimated)}
+              {wpm > 0 && ` — about ${Math.round(wpm)} words per minute`}.
+            </div>
+            <div className="flex-1 overflow-y-auto custom-scrollbar scrollbar-light dark:scrollbar-dark">
+              <table className="w-full text-xs">
+                <thead className="sticky top-0 bg-surface-overlay text-text-muted">
+                  <tr>
+                    <th className="w-8" />
+                    <th className="px-2 py-1.5 text-left font-medium">Segment</th>
+                    <th className="px-2 py-1.5 text-right font-medium">Estimated</th>
+                    <th className="px-2 py-1.5 text-right font-medium">In script</th>
+                    <th className="px-2 py-1.5 text-right font-medium">Measured</th>
+                    <th className="px-2 py-1.5 text-right font-medium">vs estimate</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => {
+                    const delta = row.measured - row.estimated;
+                    return (
+                      <tr key={row.pairId} className="border-t border-stroke-subtle">
+                        <td className="pl-4">
+                          <input
+                            type="checkbox"
+                            checked={!skipped.has(row.pairId)}
+                            onChange={() => toggleRow(row.pairId)}
+                            className="accent-accent"
+                          />
+                        </td>
+                        <td className="px-2 py-1.5 max-w-0 w-full truncate text-text-secondary">{row.content}</td>
+                        <td className="px-2 py-1.5 text-right tabular-nums text-text-muted">{row.estimated.toFixed(1)}s</td>
+                        <td className="px-2 py-1.5 text-right tabular-nums text-text-muted">{row.current.toFixed(1)}s</td>
+                        <td className="px-2 py-1.5 text-right tabular-nums">{row.measured.toFixed(1)}s</td>
+                        <td className={`px-2 py-1.5 pr-4 text-right tabular-nums ${delta > 0 ? 'text-danger' : 'text-accent-soft'}`}>
+                          {formatDelta(delta)}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex items-center gap-2 px-4 py-3 border-t border-stroke-subtle">
+              <button
+                className="flex items-center gap-1.5 px-3 py-1 rounded text-xs text-text-secondary hover:bg-surface-hover"
+                onClick={restart}
+              >
+                <RotateCcw size={12} />
+                Rehearse again
+              </button>
+              <div className="flex-1" />
+              <button
+                className="px-3 py-1 rounded text-xs text-text-secondary hover:bg-surface-hover"
+                onClick={onClose}
+              >
+                Discard
+              </button>
+              <button
+                className="px-3 py-1 rounded text-xs font-medium bg-accent text-white hover:opacity-90 disabled:opacity-50"
+                onClick={handleApply}
+                disabled={applying.length === 0}
+              >
+                Apply {applying.length} measured time{applying.length === 1 ? '' : 's'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
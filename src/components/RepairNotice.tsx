@@ -0,0 +1,44 @@
+import { useState } from 'react';
+import type { ScriptRepairs } from '../hooks/useStorage';
+
+interface RepairNoticeProps {
+  repairs: ScriptRepairs;
+  onDismiss: () => void;
+}
+
+/** Tells the user a script was repaired on load, with what was fixed on request */
+export function RepairNotice({ repairs, onDismiss }: RepairNoticeProps) {
+  const [expanded, setExpanded] = useState(false);
+  const count = repairs.messages.length;
+
+  return (
+    <div className="px-6 py-2 text-sm bg-amber-50 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300">
+      <div className="flex items-center justify-between gap-3">
+        <span>
+          Fixed {count} problem{count !== 1 ? 's' : ''} in the layout of "{repairs.title}".
+        </span>
+        <div className="flex gap-2 shrink-0">
+          <button
+            className="text-xs underline text-amber-600 hover:text-amber-500 dark:text-amber-400 dark:hover:text-amber-300"
+            onClick={() => setExpanded((open) => !open)}
+          >
+            {expanded ? 'Hide details' : 'Details'}
+          </button>
+          <button
+            className="text-xs underline text-amber-600 hover:text-amber-500 dark:text-amber-400 dark:hover:text-amber-300"
+            onClick={onDismiss}
+          >
+            Dismiss
+          </button>
+        </div>
+      </div>
+      {expanded && (
+        <ul className="mt-1 list-disc pl-5 text-xs">
+          {repairs.messages.map((message, i) => (
+            <li key={i}>{message}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { X, GitCompare } from 'lucide-react';
+import type { BubblePair, Script } from '../types/script';
+import { diffScripts } from '../utils/diffScripts';
+import type { PairDiffRow, WordDiffPart } from '../utils/diffScripts';
+import { formatTime, pairGridRows, pairMinHeight } from '../utils/timing';
+
+interface ScriptDiffViewProps {
+  before: Script;
+  after: Script;
+  beforeLabel: string;
+  afterLabel: string;
+  onClose: () => void;
+}
+
+const GAP_PX = 8;
+
+const CHANGE_BORDERS: Record<PairDiffRow['change'], string> = {
+  unchanged: 'border-stroke',
+  edited: 'border-amber-400 dark:border-amber-500',
+  added: 'border-emerald-400 dark:border-emerald-500',
+  removed: 'border-red-400 dark:border-red-500',
+};
+
+function formatDelta(seconds: number): string {
+  const sign = seconds > 0 ? '+' : seconds < 0 ? '−' : '±';
+  return `${sign}${Math.abs(seconds).toFixed(1)}s`;
+}
+
+/** Render one side of a word diff: the before side hides additions, the after side hides removals */
+function DiffText({ parts, side }: { parts: WordDiffPart[]; side: 'before' | 'after' }) {
+  return (
+    <>
+      {parts.map((part, i) => {
+        if (part.type === 'same') return <span key={i}>{part.text}</span>;
+        if (side === 'before' && part.type === 'removed') {
+          return <span key={i} className="line-through bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300">{part.text}</span>;
+        }
+        if (side === 'after' && part.type === 'added') {
+          return <span key={i} className="bg-emerald-100 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300">{part.text}</span>;
+        }
+        return null;
+      })}
+    </>
+  );
+}
+
+interface CellProps {
+  row: PairDiffRow;
+  side: 'before' | 'after';
+  /** Placement in the diff grid */
+  gridRow: number;
+  gridColumn: number;
+}
+
+function VoiceCell({ row, side, gridRow, gridColumn }: CellProps) {
+  const pair = side === 'before' ? row.before : row.after;
+  const start = side === 'before' ? row.beforeStart : row.afterStart;
+  if (!pair) {
+    return <div className="rounded-3xl border border-dashed border-stroke-subtle bg-surface-sunken" style={{ gridRow, gridColumn }} />;
+  }
+
+  const isFiller = pair.text.type === 'filler';
+  return (
+    <div className={`relative rounded-3xl border px-4 pb-3 pt-6 flex flex-col text-sm leading-relaxed ${
+      isFiller ? 'border-dashed bg-surface-sunken' : 'bg-surface-raised'
+    } ${CHANGE_BORDERS[row.change]}`} style={{ gridRow, gridColumn }}>
+      <span className="absolute top-2 left-3 text-[9px] font-mono text-text-info">{formatTime(start ?? 0)}</span>
+      {isFiller ? (
+        <span className="text-[10px] uppercase tracking-wider text-text-muted text-center">pause</span>
+      ) : (
+        <span className="whitespace-pre-wrap text-text-primary">
+          {row.change === 'edited' && row.textChanged ? <DiffText parts={row.textDiff} side={side} /> : pair.text.content}
+        </span>
+      )}
+      <div className="flex justify-between items-center mt-1 text-[10px] text-text-muted">
+        <span>{pair.text.durationSeconds.toFixed(1)}s</span>
+        {side === 'after' && row.change !== 'unchanged' && Math.abs(row.durationDelta) >= 0.05 && (
+          <span className={row.durationDelta > 0 ? 'text-danger' : 'text-emerald-600 dark:text-emerald-400'}>
+            {formatDelta(row.durationDelta)}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function VisualCell({ row, side, gridRow, gridColumn }: CellProps) {
+  const pair = side === 'before' ? row.before : row.after;
+  if (!pair) {
+    return <div className="rounded-3xl border border-dashed border-stroke-subtle bg-surface-sunken" style={{ gridRow, gridColumn }} />;
+  }
+
+  const covered = pair.visualSpan === 0;
+  const content = row.visualDiff
+    .filter((part) => part.type === 'same' || part.type === (side === 'before' ? 'removed' : 'added'))
+    .map((part) => part.text)
+    .join('');
+  return (
+    <div className={`rounded-3xl border p-4 text-sm leading-relaxed italic border-stroke-visual bg-surface-visual text-text-visual ${
+      covered ? 'opacity-50' : ''
+    } ${row.visualChanged ? CHANGE_BORDERS[row.change === 'unchanged' ? 'edited' : row.change] : ''}`} style={{ gridRow, gridColumn }}>
+      {covered && <div className="not-italic text-[10px] uppercase tracking-wider text-text-muted mb-1">continued</div>}
+      <span className="whitespace-pre-wrap">
+        {row.change === 'edited' && row.visualChanged ? <DiffText parts={row.visualDiff} side={side} /> : content}
+      </span>
+      {pair.visual.imageId && (
+        <div className="not-italic text-[10px] text-text-muted mt-1">[image]</div>
+      )}
+    </div>
+  );
+}
+
+export function ScriptDiffView({ before, after, beforeLabel, afterLabel, onClose }: ScriptDiffViewProps) {
+  const diff = useMemo(() => diffScripts(before, after), [before, after]);
+  const [hideUnchanged, setHideUnchanged] = useState(false);
+  const rows = hideUnchanged ? diff.rows.filter((r) => r.change !== 'unchanged') : diff.rows;
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [containerHeight, setContainerHeight] = useState(600);
+
+  useEffect(() => {
+    const scrollEl = scrollRef.current;
+    if (!scrollEl) return;
+    const observer = new ResizeObserver(([entry]) => setContainerHeight(entry.contentRect.height));
+    observer.observe(scrollEl);
+    return () => observer.disconnect();
+  }, []);
+
+  // Rows are sized like the timeline's, on one scale for both sides so
+  // durations compare directly; each row fits the taller of its two pairs
+  const effectiveTotal = Math.max(
+    diff.runtimeBefore, before.totalDurationSeconds,
+    diff.runtimeAfter, after.totalDurationSeconds,
+  );
+  const pxPerSecond = effectiveTotal > 0 ? containerHeight / effectiveTotal : 0;
+  const heightOf = (pair?: BubblePair) => (pair ? pairMinHeight(pair, pxPerSecond) : 0);
+  const gridTemplateRows = pairGridRows(rows.map((r) => Math.max(heightOf(r.before), heightOf(r.after))), GAP_PX);
+
+  // Esc to close
+  useEffect(() => {
+    function handleKeyDown(e: KeyboardEvent) {
+      if (e.key === 'Escape') {
+        e.stopPropagation();
+        onClose();
+      }
+    }
+    document.addEventListener('keydown', handleKeyDown, true);
+    return () => document.removeEventListener('keydown', handleKeyDown, true);
+  }, [onClose]);
+
+  const scrollbarClass = `custom-scrollbar scrollbar-light dark:scrollbar-dark`;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60"
+      onMouseDown={onClose}
+    >
+      <div
+        className="flex flex-col w-[min(1400px,96vw)] h-[90vh] rounded-xl border border-stroke-strong shadow-lg bg-surface-overlay text-text-primary"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        {/* Title bar + summary */}
+        <div className="flex items-center gap-3 px-4 py-3 border-b border-stroke-subtle">
+          <GitCompare size={15} className="text-text-secondary" />
+          <span className="text-sm font-medium">Compare versions</span>
+          <span className="text-xs text-text-muted flex-1 truncate">
+            {diff.edited} edited · {diff.added} added · {diff.removed} removed · runtime {formatTime(diff.runtimeBefore)} → {formatTime(diff.runtimeAfter)}{' '}
+            <span className={diff.runtimeDelta > 0 ? 'text-danger' : diff.runtimeDelta < 0 ? 'text-emerald-600 dark:text-emerald-400' : ''}>
+              ({formatDelta(diff.runtimeDelta)})
+            </span>
+          </span>
+          <label className="flex items-center gap-1.5 text-xs text-text-secondary cursor-pointer select-none">
+            <input type="checkbox" checked={hideUnchanged} onChange={(e) => setHideUnchanged(e.target.checked)} />
+            Changes only
+          </label>
+          <button className="p-1 rounded text-text-muted hover:text-text-primary" onClick={onClose}>
+            <X size={15} />
+          </button>
+        </div>
+
+        <div ref={scrollRef} className={`flex-1 overflow-y-auto ${scrollbarClass}`} style={{ scrollbarGutter: 'stable' }}>
+          {/* BEFORE / AFTER — each side uses the timeline's VOICE | VISUAL columns */}
+          <div
+            className="sticky top-0 z-10 px-4 pt-3 pb-2 bg-surface-overlay"
+            style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr 1fr', columnGap: GAP_PX }}
+          >
+            <div className="col-span-2 text-center text-xs font-medium uppercase tracking-wider text-text-secondary truncate">
+              {beforeLabel}
+            </div>
+            <div className="col-span-2 text-center text-xs font-medium uppercase tracking-wider text-text-secondary truncate">
+              {afterLabel}
+            </div>
+          </div>
+
+          <div
+            className="px-4 pb-4"
+            style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr 1fr', gridTemplateRows, columnGap: GAP_PX }}
+          >
+            {rows.map((row, i) => (
+              <div key={i} className="contents">
+                <VoiceCell row={row} side="before" gridRow={2 * i + 2} gridColumn={1} />
+                <VisualCell row={row} side="before" gridRow={2 * i + 2} gridColumn={2} />
+                <VoiceCell row={row} side="after" gridRow={2 * i + 2} gridColumn={3} />
+                <VisualCell row={row} side="after" gridRow={2 * i + 2} gridColumn={4} />
+              </div>
+            ))}
+          </div>
+          {rows.length === 0 && (
+            <p className="text-center text-xs text-text-muted py-8">No differences</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
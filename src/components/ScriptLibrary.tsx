@@ -0,0 +1,447 @@
+import { useEffect, useState } from 'react';
+import { useMutation, usePaginatedQuery, useQuery } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import { X, Library, Search, Folder, FolderPlus, Inbox, Files, Plus, Trash2, Pencil, ArrowUp, ArrowDown, RotateCcw, Users, LogOut } from 'lucide-react';
+import { formatTime } from '../utils/timing';
+import { ROLE_LABELS } from '../utils/roles';
+
+interface ScriptLibraryProps {
+  currentFileId: string | null;
+  onOpen: (id: string) => void;
+  onNewScript: (folderId?: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+type SortKey = 'updated' | 'title' | 'duration';
+
+const PAGE_SIZE = 25;
+
+const SORT_LABELS: Record<SortKey, string> = {
+  updated: 'Last edited',
+  title: 'Title',
+  duration: 'Duration',
+};
+
+/** Natural direction when a sort is first picked: A→Z, newest and longest first */
+const DEFAULT_ORDER: Record<SortKey, 'asc' | 'desc'> = {
+  updated: 'desc',
+  title: 'asc',
+  duration: 'desc',
+};
+
+/** Trashed scripts with restore and permanent delete */
+function TrashView({ scrollbarClass }: { scrollbarClass: string }) {
+  const trashed = useQuery(api.trash.list);
+  const restoreScript = useMutation(api.trash.restore);
+  const purgeScript = useMutation(api.trash.purge);
+  const emptyTrash = useMutation(api.trash.empty);
+
+  function handlePurge(id: string, title: string) {
+    if (!window.confirm(`Delete "${title || 'Untitled'}" forever? This can't be undone.`)) return;
+    purgeScript({ id: id as never }).catch(console.error);
+  }
+
+  function handleEmpty() {
+    if (!window.confirm('Delete everything in the trash forever? This can\'t be undone.')) return;
+    emptyTrash().catch(console.error);
+  }
+
+  return (
+    <>
+      <div className="flex items-center gap-2 px-4 py-2 border-b border-stroke-subtle">
+        <span className="flex-1 text-xs text-text-muted">
+          Scripts in the trash are deleted forever after 30 days, together with their images.
+        </span>
+        <button
+          className="px-2 py-1 rounded text-xs text-danger hover:bg-surface-hover disabled:opacity-50"
+          onClick={handleEmpty}
+          disabled={!trashed || trashed.length === 0}
+        >
+          Empty trash
+        </button>
+      </div>
+      <div className={`flex-1 overflow-y-auto ${scrollbarClass}`}>
+        {trashed === undefined && (
+          <p className="px-4 py-3 text-xs text-text-muted">Loading...</p>
+        )}
+        {trashed?.length === 0 && (
+          <p className="px-4 py-3 text-xs text-text-muted">The trash is empty.</p>
+        )}
+        {trashed?.map((s) => (
+          <div key={s._id} className="group flex items-center gap-3 px-4 py-2 text-sm border-b border-stroke-subtle">
+            <div className="flex-1 min-w-0">
+              <div className="truncate text-text-secondary">{s.title || 'Untitled'}</div>
+              <div className="text-[10px] text-text-muted">
+                Deleted {new Date(s.deletedAt).toLocaleString()} · gone for good {new Date(s.purgeAt).toLocaleDateString()}
+              </div>
+            </div>
+            <span className="text-xs font-mono shrink-0 text-text-muted">
+              {formatTime(s.runtimeSeconds)} / {formatTime(s.totalDurationSeconds)}
+            </span>
+            <button
+              className="flex items-center gap-1 px-2 py-1 rounded text-xs text-accent-soft hover:bg-surface-hover"
+              onClick={() => restoreScript({ id: s._id }).catch(console.error)}
+            >
+              <RotateCcw size={12} />
+              Restore
+            </button>
+            <button
+              className="p-0.5 rounded text-text-muted hover:text-danger"
+              onClick={() => handlePurge(s._id, s.title)}
+              title="Delete forever"
+            >
+              <Trash2 size={13} />
+            </button>
+          </div>
+        ))}
+      </div>
+    </>
+  );
+}
+
+interface SharedViewProps {
+  currentFileId: string | null;
+  onOpen: (id: string) => void;
+  onClose: () => void;
+  scrollbarClass: string;
+}
+
+/** Scripts other people shared with the user, with the role they were given */
+function SharedView({ currentFileId, onOpen, onClose, scrollbarClass }: SharedViewProps) {
+  const shared = useQuery(api.shares.sharedWithMe);
+  const leaveShare = useMutation(api.shares.leave);
+
+  function handleLeave(id: string, title: string) {
+    if (!window.confirm(`Remove "${title || 'Untitled'}" from your library? Its owner can share it again.`)) return;
+    leaveShare({ scriptId: id as never }).catch(console.error);
+  }
+
+  return (
+    <div className={`flex-1 overflow-y-auto ${scrollbarClass}`}>
+      {shared === undefined && (
+        <p className="px-4 py-3 text-xs text-text-muted">Loading...</p>
+      )}
+      {shared?.length === 0 && (
+        <p className="px-4 py-3 text-xs text-text-muted">Nobody has shared a script with you yet.</p>
+      )}
+      {shared?.map((s) => {
+        const isActive = s._id === currentFileId;
+        return (
+          <div
+            key={s._id}
+            className={`group flex items-center gap-3 px-4 py-2 text-sm cursor-pointer border-b border-stroke-subtle ${
+              isActive ? 'bg-surface-active text-accent-soft' : 'hover:bg-surface-hover'
+            }`}
+            onClick={() => { if (!isActive) onOpen(s._id); onClose(); }}
+          >
+            <div className="flex-1 min-w-0">
+              <div className="truncate">{s.title || 'Untitled'}</div>
+              <div className="text-[10px] text-text-muted">
+                {s.ownerName} · {ROLE_LABELS[s.role]} · Edited {new Date(s.updatedAt).toLocaleString()}
+              </div>
+            </div>
+            <span className="text-xs font-mono shrink-0 text-text-secondary">
+              {formatTime(s.runtimeSeconds)} / {formatTime(s.totalDurationSeconds)}
+            </span>
+            <button
+              className={`p-0.5 rounded transition-opacity text-text-muted hover:text-danger ${
+                isActive ? 'invisible' : 'opacity-0 group-hover:opacity-100'
+              }`}
+              onClick={(e) => { e.stopPropagation(); handleLeave(s._id, s.title); }}
+              title="Remove from my library"
+            >
+              <LogOut size={13} />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export function ScriptLibrary({ currentFileId, onOpen, onNewScript, onDelete, onClose }: ScriptLibraryProps) {
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [sort, setSort] = useState<SortKey>('updated');
+  const [order, setOrder] = useState<'asc' | 'desc'>('desc');
+  // 'all', 'unfiled', 'shared', 'trash' or a folder id
+  const [folder, setFolder] = useState('all');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const folders = useQuery(api.folders.list);
+  const createFolder = useMutation(api.folders.create);
+  const renameFolder = useMutation(api.folders.rename);
+  const removeFolder = useMutation(api.folders.remove);
+  const moveScript = useMutation(api.scripts.move);
+
+  const { results, status, loadMore } = usePaginatedQuery(
+    api.scripts.list,
+    folder === 'trash' || folder === 'shared' ? 'skip' : {
+      sort,
+      order,
+      search: search || undefined,
+      folder: folder === 'all' ? undefined : folder === 'unfiled' ? null : (folder as never),
+    },
+    { initialNumItems: PAGE_SIZE }
+  );
+
+  // Debounce search so each keystroke doesn't start a new paginated query
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  // Esc to close
+  useEffect(() => {
+    function handleKeyDown(e: KeyboardEvent) {
+      if (e.key === 'Escape') onClose();
+    }
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  function handleSortChange(next: SortKey) {
+    setSort(next);
+    setOrder(DEFAULT_ORDER[next]);
+  }
+
+  async function handleCreateFolder() {
+    const id = await createFolder({ name: 'New folder' });
+    setFolder(id);
+    setRenamingId(id);
+    setRenameValue('New folder');
+  }
+
+  function commitRename() {
+    if (renamingId && renameValue.trim()) {
+      renameFolder({ id: renamingId as never, name: renameValue }).catch(console.error);
+    }
+    setRenamingId(null);
+  }
+
+  function handleRemoveFolder(id: string) {
+    if (folder === id) setFolder('all');
+    removeFolder({ id: id as never }).catch(console.error);
+  }
+
+  const folderNames = new Map((folders ?? []).map((f) => [f._id as string, f.name]));
+  const scrollbarClass = `custom-scrollbar scrollbar-light dark:scrollbar-dark`;
+
+  const folderButton = (value: string, label: string, icon: React.ReactNode) => (
+    <button
+      className={`w-full flex items-center gap-2 px-3 py-1.5 text-sm rounded transition-colors ${
+        folder === value ? 'bg-surface-active text-accent-soft' : 'text-text-primary hover:bg-surface-hover'
+      }`}
+      onClick={() => setFolder(value)}
+    >
+      {icon}
+      <span className="truncate">{label}</span>
+    </button>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60"
+      onMouseDown={onClose}
+    >
+      <div
+        className="flex flex-col w-[min(960px,92vw)] h-[80vh] rounded-xl border border-stroke-strong shadow-lg bg-surface-overlay text-text-primary"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        {/* Title bar */}
+        <div className="flex items-center gap-2 px-4 py-3 border-b border-stroke-subtle">
+          <Library size={15} className="text-text-secondary" />
+          <span className="text-sm font-medium flex-1">Script library</span>
+          <button
+            className="flex items-center gap-1.5 px-3 py-1 rounded text-xs font-medium bg-accent text-white hover:opacity-90"
+            onClick={() => {
+              onNewScript(['all', 'unfiled', 'shared', 'trash'].includes(folder) ? undefined : folder);
+              onClose();
+            }}
+          >
+            <Plus size={12} />
+            New script
+          </button>
+          <button className="p-1 rounded text-text-muted hover:text-text-primary" onClick={onClose}>
+            <X size={15} />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Folders */}
+          <div className={`w-52 shrink-0 p-2 space-y-0.5 border-r border-stroke-subtle overflow-y-auto ${scrollbarClass}`}>
+            {folderButton('all', 'All scripts', <Files size={14} />)}
+            {folderButton('unfiled', 'Unfiled', <Inbox size={14} />)}
+            {folderButton('shared', 'Shared with me', <Users size={14} />)}
+            <div className="flex items-center justify-between px-3 pt-3 pb-1">
+              <span className="text-[10px] font-medium uppercase tracking-wider text-text-muted">Folders</span>
+              <button
+                className="p-0.5 rounded text-text-muted hover:text-text-primary"
+                onClick={handleCreateFolder}
+                title="New folder"
+              >
+                <FolderPlus size={13} />
+              </button>
+            </div>
+            {folders?.map((f) =>
+              renamingId === f._id ? (
+                <input
+                  key={f._id}
+                  type="text"
+                  value={renameValue}
+                  onChange={(e) => setRenameValue(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') { e.stopPropagation(); setRenamingId(null); }
+                  }}
+                  className="w-full text-sm rounded px-3 py-1 border outline-none bg-surface-sunken text-text-primary border-stroke focus:border-accent"
+                  autoFocus
+                />
+              ) : (
+                <div key={f._id} className="group relative">
+                  {folderButton(f._id, f.name, <Folder size={14} />)}
+                  <div className="absolute right-1 top-1/2 -translate-y-1/2 flex opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      className="p-0.5 rounded text-text-muted hover:text-text-primary"
+                      onClick={() => { setRenamingId(f._id); setRenameValue(f.name); }}
+                    >
+                      <Pencil size={12} />
+                    </button>
+                    <button
+                      className="p-0.5 rounded text-text-muted hover:text-danger"
+                      onClick={() => handleRemoveFolder(f._id)}
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                </div>
+              )
+            )}
+            <div className="my-2 h-px bg-stroke-subtle" />
+            {folderButton('trash', 'Trash', <Trash2 size={14} />)}
+          </div>
+
+          {/* Scripts */}
+          <div className="flex-1 flex flex-col min-w-0">
+            {folder === 'trash' && <TrashView scrollbarClass={scrollbarClass} />}
+            {folder === 'shared' && (
+              <SharedView
+                currentFileId={currentFileId}
+                onOpen={onOpen}
+                onClose={onClose}
+                scrollbarClass={scrollbarClass}
+              />
+            )}
+            {folder !== 'trash' && folder !== 'shared' && (
+              <>
+                <div className="flex items-center gap-2 px-4 py-2 border-b border-stroke-subtle">
+                  <div className="relative flex-1">
+                    <Search size={13} className="absolute left-2 top-1/2 -translate-y-1/2 text-text-muted" />
+                    <input
+                      type="text"
+                      value={searchInput}
+                      onChange={(e) => setSearchInput(e.target.value)}
+                      placeholder="Search titles"
+                      className="w-full text-sm rounded pl-7 pr-2 py-1 border outline-none bg-surface-sunken text-text-primary border-stroke focus:border-accent"
+                    />
+                  </div>
+                  <select
+                    value={sort}
+                    onChange={(e) => handleSortChange(e.target.value as SortKey)}
+                    disabled={!!search}
+                    title={search ? 'Search results are ordered by relevance' : undefined}
+                    className="text-xs rounded px-1.5 py-1 border outline-none bg-surface-sunken text-text-primary border-stroke disabled:opacity-50"
+                  >
+                    {(Object.keys(SORT_LABELS) as SortKey[]).map((key) => (
+                      <option key={key} value={key}>{SORT_LABELS[key]}</option>
+                    ))}
+                  </select>
+                  <button
+                    className="p-1 rounded text-text-secondary hover:bg-surface-hover disabled:opacity-50"
+                    onClick={() => setOrder(order === 'asc' ? 'desc' : 'asc')}
+                    disabled={!!search}
+                    title={order === 'asc' ? 'Ascending' : 'Descending'}
+                  >
+                    {order === 'asc' ? <ArrowUp size={14} /> : <ArrowDown size={14} />}
+                  </button>
+                </div>
+
+                <div className={`flex-1 overflow-y-auto ${scrollbarClass}`}>
+                  {status === 'LoadingFirstPage' && (
+                    <p className="px-4 py-3 text-xs text-text-muted">Loading...</p>
+                  )}
+                  {status !== 'LoadingFirstPage' && results.length === 0 && (
+                    <p className="px-4 py-3 text-xs text-text-muted">
+                      {search ? 'No scripts match your search.' : 'No scripts here yet.'}
+                    </p>
+                  )}
+                  {results.map((s) => {
+                    const isActive = s._id === currentFileId;
+                    const overBudget = s.runtimeSeconds > s.totalDurationSeconds;
+                    return (
+                      <div
+                        key={s._id}
+                        className={`group flex items-center gap-3 px-4 py-2 text-sm cursor-pointer border-b border-stroke-subtle ${
+                          isActive ? 'bg-surface-active text-accent-soft' : 'hover:bg-surface-hover'
+                        }`}
+                        onClick={() => { if (!isActive) onOpen(s._id); onClose(); }}
+                      >
+                        <div className="flex-1 min-w-0">
+                          <div className="truncate">{s.title || 'Untitled'}</div>
+                          <div className="text-[10px] text-text-muted">
+                            Edited {new Date(s.updatedAt).toLocaleString()}
+                            {folder === 'all' && s.folderId && folderNames.has(s.folderId) && ` · ${folderNames.get(s.folderId)}`}
+                          </div>
+                        </div>
+                        <span className={`text-xs font-mono shrink-0 ${overBudget ? 'text-danger' : 'text-text-secondary'}`}>
+                          {formatTime(s.runtimeSeconds)} / {formatTime(s.totalDurationSeconds)}
+                        </span>
+                        <select
+                          value={s.folderId ?? ''}
+                          onClick={(e) => e.stopPropagation()}
+                          onChange={(e) => {
+                            moveScript({ id: s._id, folderId: (e.target.value || undefined) as never }).catch(console.error);
+                          }}
+                          className="w-28 shrink-0 text-xs rounded px-1 py-0.5 border outline-none bg-surface-sunken text-text-primary border-stroke"
+                          title="Move to folder"
+                        >
+                          <option value="">Unfiled</option>
+                          {folders?.map((f) => (
+                            <option key={f._id} value={f._id}>{f.name}</option>
+                          ))}
+                        </select>
+                        <button
+                          className={`p-0.5 rounded transition-opacity text-text-muted hover:text-danger ${
+                            isActive ? 'invisible' : 'opacity-0 group-hover:opacity-100'
+                          }`}
+                          onClick={(e) => { e.stopPropagation(); onDelete(s._id); }}
+                          title="Move to trash"
+                        >
+                          <Trash2 size={13} />
+                        </button>
+                      </div>
+                    );
+                  })}
+                  {status === 'CanLoadMore' && (
+                    <button
+                      className="w-full py-2 text-xs text-text-secondary hover:bg-surface-hover"
+                      onClick={() => loadMore(PAGE_SIZE)}
+                    >
+                      Load more
+                    </button>
+                  )}
+                  {status === 'LoadingMore' && (
+                    <p className="px-4 py-2 text-xs text-text-muted text-center">Loading...</p>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
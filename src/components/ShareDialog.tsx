@@ -0,0 +1,236 @@
+import { useEffect, useState, useCallback } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { ConvexError } from 'convex/values';
+import { api } from '../../convex/_generated/api';
+import { X, Share2, UserMinus, Link, Copy, Check, Trash2 } from 'lucide-react';
+import type { ScriptRole } from '../types/script';
+import { ROLE_LABELS, SHARE_ROLES } from '../utils/roles';
+
+type ShareRole = Exclude<ScriptRole, 'owner'>;
+
+/** Lifetimes offered for public links, in days (0 = until revoked) */
+const LINK_EXPIRY_OPTIONS = [
+  { days: 0, label: 'Never expires' },
+  { days: 1, label: 'Expires in 1 day' },
+  { days: 7, label: 'Expires in 7 days' },
+  { days: 30, label: 'Expires in 30 days' },
+];
+
+function shareLinkUrl(token: string): string {
+  return `${window.location.origin}${window.location.pathname}?share=${token}`;
+}
+
+interface ShareDialogProps {
+  scriptId: string;
+  title: string;
+  onClose: () => void;
+}
+
+/** Invite people to a script by email, and hand out public read-only links */
+export function ShareDialog({ scriptId, title, onClose }: ShareDialogProps) {
+  const shares = useQuery(api.shares.list, { scriptId: scriptId as never });
+  const invite = useMutation(api.shares.invite);
+  const updateRole = useMutation(api.shares.updateRole);
+  const removeShare = useMutation(api.shares.remove);
+  const links = useQuery(api.shareLinks.list, { scriptId: scriptId as never });
+  const createLink = useMutation(api.shareLinks.create);
+  const revokeLink = useMutation(api.shareLinks.revoke);
+  const [expiryDays, setExpiryDays] = useState(0);
+  const [copiedToken, setCopiedToken] = useState<string | null>(null);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<ShareRole>('viewer');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Esc to close
+  useEffect(() => {
+    function handleKeyDown(e: KeyboardEvent) {
+      if (e.key === 'Escape') onClose();
+    }
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handleInvite = useCallback(async () => {
+    if (!email.trim()) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await invite({ scriptId: scriptId as never, email, role });
+      setEmail('');
+    } catch (err) {
+      console.error('Sharing failed:', err);
+      setError(err instanceof ConvexError ? String(err.data) : 'Could not share the script — try again');
+    } finally {
+      setBusy(false);
+    }
+  }, [invite, scriptId, email, role]);
+
+  const handleCopy = useCallback((token: string) => {
+    navigator.clipboard.writeText(shareLinkUrl(token)).then(
+      () => {
+        setCopiedToken(token);
+        setTimeout(() => setCopiedToken((current) => (current === token ? null : current)), 1500);
+      },
+      (err) => console.error('Copying link failed:', err)
+    );
+  }, []);
+
+  const handleCreateLink = useCallback(async () => {
+    try {
+      const token = await createLink({ scriptId: scriptId as never, expiresInDays: expiryDays || undefined });
+      handleCopy(token);
+    } catch (err) {
+      console.error('Creating link failed:', err);
+    }
+  }, [createLink, scriptId, expiryDays, handleCopy]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60"
+      onMouseDown={onClose}
+    >
+      <div
+        className="w-[min(480px,92vw)] rounded-xl border border-stroke-strong shadow-lg bg-surface-overlay text-text-primary"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        {/* Title bar */}
+        <div className="flex items-center gap-2 px-4 py-3 border-b border-stroke-subtle">
+          <Share2 size={15} className="text-text-secondary" />
+          <span className="text-sm font-medium flex-1 truncate">Share "{title || 'Untitled'}"</span>
+          <button className="p-1 rounded text-text-muted hover:text-text-primary" onClick={onClose}>
+            <X size={15} />
+          </button>
+        </div>
+
+        {/* Invite */}
+        <div className="px-4 py-3 space-y-2 border-b border-stroke-subtle">
+          <div className="flex items-center gap-2">
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => { setEmail(e.target.value); setError(null); }}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleInvite(); }}
+              placeholder="Email address"
+              className="flex-1 min-w-0 text-xs rounded px-2 py-1 border outline-none bg-surface-sunken text-text-primary border-stroke focus:border-accent"
+              autoFocus
+            />
+            <select
+              value={role}
+              onChange={(e) => setRole(e.target.value as ShareRole)}
+              className="text-xs rounded px-1 py-1 border outline-none bg-surface-sunken text-text-primary border-stroke focus:border-accent"
+            >
+              {SHARE_ROLES.map((r) => (
+                <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+              ))}
+            </select>
+            <button
+              className="px-3 py-1 rounded text-xs font-medium bg-accent text-white hover:opacity-90 disabled:opacity-50"
+              onClick={handleInvite}
+              disabled={busy || !email.trim()}
+            >
+              Invite
+            </button>
+          </div>
+          {error && <p className="text-xs text-danger">{error}</p>}
+          <p className="text-[10px] text-text-muted">
+            The script shows up under "Shared with me" in their library once they sign in with this address.
+          </p>
+        </div>
+
+        {/* People with access */}
+        <div className="max-h-72 overflow-y-auto py-1 custom-scrollbar scrollbar-light dark:scrollbar-dark">
+          {shares === undefined && (
+            <p className="px-4 py-3 text-xs text-text-muted">Loading...</p>
+          )}
+          {shares?.length === 0 && (
+            <p className="px-4 py-3 text-xs text-text-muted">Not shared with anyone yet.</p>
+          )}
+          {shares?.map((share) => (
+            <div key={share._id} className="group flex items-center gap-2 px-4 py-2 text-sm">
+              <span className="truncate flex-1">{share.email}</span>
+              <select
+                value={share.role}
+                onChange={(e) => {
+                  updateRole({ id: share._id, role: e.target.value as ShareRole })
+                    .catch((err) => console.error('Changing role failed:', err));
+                }}
+                className="text-xs rounded px-1 py-0.5 border outline-none bg-surface-sunken text-text-primary border-stroke focus:border-accent"
+              >
+                {SHARE_ROLES.map((r) => (
+                  <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+                ))}
+              </select>
+              <button
+                className="p-1 rounded text-text-muted hover:text-danger"
+                onClick={() => {
+                  removeShare({ id: share._id }).catch((err) => console.error('Removing access failed:', err));
+                }}
+                title="Remove access"
+              >
+                <UserMinus size={13} />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {/* Public links */}
+        <div className="px-4 py-3 space-y-2 border-t border-stroke-subtle">
+          <div className="flex items-center gap-2">
+            <Link size={13} className="text-text-secondary" />
+            <span className="text-xs font-medium flex-1">Public link</span>
+            <select
+              value={expiryDays}
+              onChange={(e) => setExpiryDays(Number(e.target.value))}
+              className="text-xs rounded px-1 py-1 border outline-none bg-surface-sunken text-text-primary border-stroke focus:border-accent"
+            >
+              {LINK_EXPIRY_OPTIONS.map((option) => (
+                <option key={option.days} value={option.days}>{option.label}</option>
+              ))}
+            </select>
+            <button
+              className="px-3 py-1 rounded text-xs text-accent-soft hover:bg-surface-hover"
+              onClick={handleCreateLink}
+            >
+              Create link
+            </button>
+          </div>
+          <p className="text-[10px] text-text-muted">
+            Anyone with a link can view the script without signing in, until you revoke it.
+          </p>
+          {links?.map((link) => {
+            const expired = link.expiresAt !== undefined && link.expiresAt <= Date.now();
+            return (
+              <div key={link._id} className="flex items-center gap-2 text-xs">
+                <span className={`truncate flex-1 font-mono ${expired ? 'text-text-muted line-through' : 'text-text-secondary'}`}>
+                  {shareLinkUrl(link.token)}
+                </span>
+                <span className="shrink-0 text-[10px] text-text-muted">
+                  {link.expiresAt === undefined
+                    ? 'No expiry'
+                    : `${expired ? 'Expired' : 'Expires'} ${new Date(link.expiresAt).toLocaleDateString()}`}
+                </span>
+                <button
+                  className="p-1 rounded text-text-muted hover:text-text-primary"
+                  onClick={() => handleCopy(link.token)}
+                  title="Copy link"
+                >
+                  {copiedToken === link.token ? <Check size={13} /> : <Copy size={13} />}
+                </button>
+                <button
+                  className="p-1 rounded text-text-muted hover:text-danger"
+                  onClick={() => {
+                    revokeLink({ id: link._id }).catch((err) => console.error('Revoking link failed:', err));
+                  }}
+                  title="Revoke link"
+                >
+                  <Trash2 size={13} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
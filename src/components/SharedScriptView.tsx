@@ -0,0 +1,101 @@
+import { useQuery } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import { Eye, Moon, Sun } from 'lucide-react';
+import { useSettings } from '../hooks/useSettings';
+import { repairScript } from '../utils/validateScript';
+import { Logo } from './Logo';
+import { BubbleTimeline } from './BubbleTimeline';
+
+interface SharedScriptViewProps {
+  token: string;
+}
+
+const noop = () => {};
+
+/**
+ * A script opened through a public share link (`?share=<token>`): the
+ * timeline without editing controls, for reviewers who have no account.
+ */
+export function SharedScriptView({ token }: SharedScriptViewProps) {
+  const { settings, toggleTheme, toggleInfoMode } = useSettings();
+  const doc = useQuery(api.shareLinks.view, { token });
+
+  if (doc === undefined) {
+    return (
+      <div className="flex items-center justify-center h-screen bg-surface text-text-secondary">
+        <div className="text-center">
+          <div className="animate-spin w-8 h-8 border-2 border-violet-500 border-t-transparent rounded-full mx-auto mb-3" />
+          <p className="text-sm">Loading script...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (doc === null) {
+    return (
+      <div className="flex items-center justify-center h-screen bg-surface text-text-secondary">
+        <div className="text-center">
+          <Logo height={18} className="text-text-primary mx-auto mb-4" />
+          <p className="text-sm">This link isn't available — it may have expired or been revoked.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { script } = repairScript({
+    title: doc.title,
+    totalDurationSeconds: doc.totalDurationSeconds,
+    pairs: doc.pairs,
+  });
+  const currentDuration = script.pairs.reduce((sum, pair) => sum + pair.text.durationSeconds, 0);
+
+  return (
+    <div className="flex flex-col h-screen bg-surface text-text-primary">
+      <header className="relative flex items-center border-b border-stroke-strong px-6 py-3 bg-surface-alt">
+        <Logo height={18} className="text-text-primary shrink-0" onBubbleClick={toggleTheme} onBeatsClick={toggleInfoMode} />
+        <div className="absolute inset-0 flex items-center justify-center gap-2 pointer-events-none">
+          <span className="text-sm font-medium text-text-primary truncate max-w-[50vw]">
+            {script.title || 'Untitled'}
+          </span>
+          <span className="flex items-center gap-1 px-1.5 rounded-full text-[10px] leading-4 bg-surface-active text-accent-soft">
+            <Eye size={10} />
+            View only
+          </span>
+        </div>
+        <div className="flex-1" />
+        <button
+          onClick={toggleTheme}
+          className="p-2 rounded-lg transition-colors hover:bg-surface-hover text-text-secondary"
+          title={settings.theme === 'dark' ? 'Light mode' : 'Dark mode'}
+        >
+          {settings.theme === 'dark' ? <Sun size={16} /> : <Moon size={16} />}
+        </button>
+      </header>
+      <BubbleTimeline
+        pairs={script.pairs}
+        totalDuration={script.totalDurationSeconds}
+        currentDuration={currentDuration}
+        onDurationChange={noop}
+        onUpdateText={noop}
+        onCommitText={noop}
+        onUpdateVisual={noop}
+        onUpdateImage={noop}
+        onSplit={noop}
+        onInsertFiller={noop}
+        onUpdateDuration={noop}
+        onDeletePair={noop}
+        onMergePairUp={noop}
+        onMergePairDown={noop}
+        onMergeVisualUp={noop}
+        onMergeVisualDown={noop}
+        onSplitVisualSpan={noop}
+        readOnly
+        shareToken={token}
+      />
+      <footer className="border-t border-stroke-subtle px-6 py-1.5 text-[10px] flex justify-between text-text-info">
+        <span>Last edited {new Date(doc.updatedAt).toLocaleString()}</span>
+        <span>{script.pairs.length} segments</span>
+      </footer>
+    </div>
+  );
+}
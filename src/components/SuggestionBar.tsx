@@ -0,0 +1,56 @@
+import { PenLine, CheckCheck, X } from 'lucide-react';
+
+interface SuggestionBarProps {
+  /** Pending suggestions on the script */
+  count: number;
+  /** How many of them no longer apply — accepting drops them */
+  staleCount: number;
+  canSuggest: boolean;
+  suggesting: boolean;
+  onToggleSuggesting: () => void;
+  /** Owner only: accept or reject everything pending */
+  onAcceptAll?: () => void;
+  onRejectAll?: () => void;
+}
+
+/** Suggestion mode switch for reviewers, and bulk review for the owner */
+export function SuggestionBar({ count, staleCount, canSuggest, suggesting, onToggleSuggesting, onAcceptAll, onRejectAll }: SuggestionBarProps) {
+  return (
+    <div className="px-6 py-1.5 text-xs flex items-center gap-3 border-b border-stroke-subtle bg-surface-alt text-text-secondary">
+      {canSuggest && (
+        <button
+          className={`flex items-center gap-1.5 px-2 py-0.5 rounded transition-colors ${
+            suggesting ? 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300' : 'hover:bg-surface-hover'
+          }`}
+          onClick={onToggleSuggesting}
+          title={suggesting ? 'Stop suggesting' : 'Edits become suggestions the owner can accept or reject'}
+        >
+          <PenLine size={12} />
+          {suggesting ? 'Suggesting' : 'Suggest edits'}
+        </button>
+      )}
+      <span className="flex-1 text-text-muted">
+        {count === 0 ? 'No pending suggestions' : `${count} pending suggestion${count === 1 ? '' : 's'}`}
+        {staleCount > 0 && ` · ${staleCount} no longer appl${staleCount === 1 ? 'ies' : 'y'}`}
+      </span>
+      {count > 0 && onAcceptAll && (
+        <button
+          className="flex items-center gap-1 px-2 py-0.5 rounded text-emerald-600 hover:bg-surface-hover"
+          onClick={onAcceptAll}
+        >
+          <CheckCheck size={12} />
+          Accept all
+        </button>
+      )}
+      {count > 0 && onRejectAll && (
+        <button
+          className="flex items-center gap-1 px-2 py-0.5 rounded hover:text-danger hover:bg-surface-hover"
+          onClick={() => { if (window.confirm(`Reject all ${count} suggestions?`)) onRejectAll(); }}
+        >
+          <X size={12} />
+          Reject all
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { Check, X } from 'lucide-react';
+import type { SuggestionMark } from '../utils/suggestions';
+
+interface SuggestionMarksProps {
+  marks: SuggestionMark[];
+  onAccept?: (id: string) => void;
+  onReject?: (id: string) => void;
+}
+
+/** Pending suggestions inside a bubble: insertions and deletions inline, plus other proposed changes */
+export function SuggestionMarks({ marks, onAccept, onReject }: SuggestionMarksProps) {
+  return (
+    <div
+      className="mt-2 space-y-1.5 flex-shrink-0"
+      onClick={(e) => e.stopPropagation()}
+      onDoubleClick={(e) => e.stopPropagation()}
+    >
+      {marks.map((mark) => (
+        <div key={mark.id} className="rounded-xl border border-dashed border-amber-500/60 px-2.5 py-1.5 text-xs">
+          {mark.diff && (
+            <p className="whitespace-pre-wrap leading-relaxed text-text-secondary">
+              {mark.diff.map((part, i) => {
+                if (part.type === 'removed') {
+                  return <del key={i} className="bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300">{part.text}</del>;
+                }
+                if (part.type === 'added') {
+                  return <ins key={i} className="no-underline bg-emerald-100 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300">{part.text}</ins>;
+                }
+                return <span key={i}>{part.text}</span>;
+              })}
+            </p>
+          )}
+          {mark.notes.map((note, i) => (
+            <p key={i} className="text-text-secondary">{note}</p>
+          ))}
+          <div className="flex items-center gap-1 mt-1">
+            <span className="flex-1 truncate text-[10px] text-text-muted">Suggested by {mark.authorName}</span>
+            {mark.canAccept && onAccept && (
+              <button
+                className="p-0.5 rounded text-emerald-600 hover:bg-surface-hover"
+                onClick={() => onAccept(mark.id)}
+                title="Accept"
+              >
+                <Check size={12} />
+              </button>
+            )}
+            {mark.canReject && onReject && (
+              <button
+                className="p-0.5 rounded text-text-muted hover:text-danger hover:bg-surface-hover"
+                onClick={() => onReject(mark.id)}
+                title={mark.canAccept ? 'Reject' : 'Withdraw'}
+              >
+                <X size={12} />
+              </button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
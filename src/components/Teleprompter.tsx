@@ -0,0 +1,189 @@
+import { useEffect, useLayoutEffect, useRef } from 'react';
+import { X, Play, Pause, Rewind, FastForward, FlipHorizontal2, AArrowUp, AArrowDown } from 'lucide-react';
+import type { BubblePair } from '../types/script';
+import type { Playback } from '../hooks/usePlayback';
+import { useSettings } from '../hooks/useSettings';
+import { formatTime, getCumulativeTimes, pairIndexAt } from '../utils/timing';
+
+interface TeleprompterProps {
+  pairs: BubblePair[];
+  playback: Playback;
+  runtime: number;
+  onClose: () => void;
+}
+
+/** Seconds the rewind / fast-forward buttons and arrow keys jump */
+const SEEK_STEP = 5;
+const FONT_STEP = 4;
+/** Where the line being read sits, as a fraction of the screen height */
+const READING_LINE = 0.4;
+
+/**
+ * Full-screen teleprompter: the voice text scrolls past a reading line in
+ * step with the playback clock. Space plays/pauses, ←/→ seek, +/− change
+ * the font size, M mirrors, Esc closes.
+ */
+export function Teleprompter({ pairs, playback, runtime, onClose }: TeleprompterProps) {
+  const { settings, setTeleprompterFontSize, toggleTeleprompterMirror } = useSettings();
+  const { time, playing, toggle, seek } = playback;
+  const rootRef = useRef<HTMLDivElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const blockRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+  const playingIndex = pairIndexAt(pairs, time);
+  const fontSize = settings.teleprompterFontSize;
+
+  // Full screen while open, where the browser allows it
+  useEffect(() => {
+    rootRef.current?.requestFullscreen?.().catch(() => { /* stays a full-window overlay */ });
+    return () => {
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    };
+  }, []);
+
+  // Leaving full screen (Esc in most browsers) closes the teleprompter too
+  useEffect(() => {
+    function handleFullscreenChange() {
+      if (!document.fullscreenElement) onClose();
+    }
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+  }, [onClose]);
+
+  useEffect(() => {
+    function handleKeyDown(e: KeyboardEvent) {
+      if (e.target instanceof HTMLInputElement && e.target.type !== 'range') return;
+      switch (e.key) {
+        case 'Escape':
+          onClose();
+          break;
+        case ' ':
+          e.preventDefault();
+          toggle();
+          break;
+        case 'ArrowLeft':
+          e.preventDefault();
+          seek(time - SEEK_STEP);
+          break;
+        case 'ArrowRight':
+          e.preventDefault();
+          seek(time + SEEK_STEP);
+          break;
+        case '+':
+        case '=':
+          setTeleprompterFontSize(fontSize + FONT_STEP);
+          break;
+        case '-':
+          setTeleprompterFontSize(fontSize - FONT_STEP);
+          break;
+        case 'm':
+        case 'M':
+          toggleTeleprompterMirror();
+          break;
+        default:
+          return;
+      }
+    }
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose, toggle, seek, time, fontSize, setTeleprompterFontSize, toggleTeleprompterMirror]);
+
+  // Scroll so the point being spoken sits on the reading line
+  useLayoutEffect(() => {
+    const scrollEl = scrollRef.current;
+    if (!scrollEl || pairs.length === 0) return;
+    const index = playingIndex === -1 ? pairs.length - 1 : playingIndex;
+    const block = blockRefs.current[index];
+    if (!block) return;
+    const duration = pairs[index].text.durationSeconds;
+    const start = getCumulativeTimes(pairs)[index];
+    const progress = duration > 0 ? Math.min(1, Math.max(0, (time - start) / duration)) : 1;
+    scrollEl.scrollTop = block.offsetTop + progress * block.offsetHeight - scrollEl.clientHeight * READING_LINE;
+  }, [time, fontSize, pairs, playingIndex]);
+
+  const controlClass = 'p-2 rounded-lg text-white/70 hover:text-white hover:bg-white/10';
+
+  return (
+    <div ref={rootRef} className="fixed inset-0 z-50 flex flex-col bg-black text-white select-none">
+      {/* Reading line */}
+      <div
+        className="absolute left-0 right-0 z-10 flex items-center pointer-events-none"
+        style={{ top: `${READING_LINE * 100}%` }}
+      >
+        <div className="w-0 h-0 border-y-8 border-y-transparent border-l-[12px] border-l-violet-500" />
+        <div className="flex-1 h-px bg-violet-500/30" />
+      </div>
+
+      <div ref={scrollRef} className="relative flex-1 overflow-hidden">
+        <div
+          className="mx-auto max-w-4xl px-12"
+          style={{
+            fontSize,
+            lineHeight: 1.4,
+            transform: settings.teleprompterMirror ? 'scaleX(-1)' : undefined,
+            paddingTop: `${READING_LINE * 100}vh`,
+            paddingBottom: `${(1 - READING_LINE) * 100}vh`,
+          }}
+        >
+          {pairs.map((pair, i) => (
+            <div
+              key={pair.id}
+              ref={(el) => { blockRefs.current[i] = el; }}
+              className={`py-[0.3em] transition-opacity ${i === playingIndex ? 'opacity-100' : 'opacity-40'}`}
+            >
+              {pair.text.type === 'filler' ? (
+                <p className="text-center text-[0.5em] uppercase tracking-widest text-white/60">
+                  Pause · {pair.text.durationSeconds.toFixed(1)}s
+                </p>
+              ) : (
+                <p className="whitespace-pre-wrap">{pair.text.content}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Controls */}
+      <div className="flex items-center gap-2 px-6 py-3 border-t border-white/10 bg-black">
+        <button className={controlClass} onClick={() => seek(time - SEEK_STEP)} title={`Back ${SEEK_STEP}s (←)`}>
+          <Rewind size={18} />
+        </button>
+        <button className={controlClass} onClick={toggle} title={playing ? 'Pause (Space)' : 'Play (Space)'}>
+          {playing ? <Pause size={18} /> : <Play size={18} />}
+        </button>
+        <button className={controlClass} onClick={() => seek(time + SEEK_STEP)} title={`Forward ${SEEK_STEP}s (→)`}>
+          <FastForward size={18} />
+        </button>
+        <span className="text-sm font-mono tabular-nums text-white/70">
+          {formatTime(time)} / {formatTime(runtime)}
+        </span>
+        <input
+          type="range"
+          min={0}
+          max={runtime}
+          step={0.1}
+          value={time}
+          onChange={(e) => seek(Number(e.target.value))}
+          className="flex-1 h-0.5 accent-violet-500"
+        />
+        <button className={controlClass} onClick={() => setTeleprompterFontSize(fontSize - FONT_STEP)} title="Smaller text (−)">
+          <AArrowDown size={18} />
+        </button>
+        <span className="w-8 text-center text-xs tabular-nums text-white/70">{fontSize}</span>
+        <button className={controlClass} onClick={() => setTeleprompterFontSize(fontSize + FONT_STEP)} title="Larger text (+)">
+          <AArrowUp size={18} />
+        </button>
+        <button
+          className={`${controlClass} ${settings.teleprompterMirror ? 'bg-white/15 text-white' : ''}`}
+          onClick={toggleTeleprompterMirror}
+          title="Mirror (M)"
+        >
+          <FlipHorizontal2 size={18} />
+        </button>
+        <button className={controlClass} onClick={onClose} title="Close (Esc)">
+          <X size={18} />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,11 @@ import { formatTime, countWords, estimateDuration } from '../utils/timing';
 import { useSettings } from '../hooks/useSettings';
 import { PopOverlay } from './PopOverlay';
 import { NeedleIcon } from './NeedleIcon';
+import { CommentBadge } from './CommentBadge';
+import { SuggestionMarks } from './SuggestionMarks';
+import type { SuggestionMark } from '../utils/suggestions';
+import { selectedRange } from '../utils/comments';
+import type { CommentAnchor } from '../types/script';
 
 interface TextBubbleProps {
   content: string;
@@ -20,6 +25,17 @@ interface TextBubbleProps {
   onDeletePair: () => void;
   onMergePairUp: () => void;
   onMergePairDown: () => void;
+  /** Shown without the needle and resize handle, for people who can't edit */
+  readOnly?: boolean;
+  /** Open comment threads on this bubble */
+  commentCount?: number;
+  canComment?: boolean;
+  /** Open the bubble's comments, starting a thread on the selected text if any */
+  onComment?: (range?: CommentAnchor['range']) => void;
+  /** Pending suggestions on this bubble */
+  suggestions?: SuggestionMark[];
+  onAcceptSuggestion?: (id: string) => void;
+  onRejectSuggestion?: (id: string) => void;
 }
 
 export function TextBubble({
@@ -38,6 +54,13 @@ export function TextBubble({
   onDeletePair,
   onMergePairUp,
   onMergePairDown,
+  readOnly = false,
+  commentCount = 0,
+  canComment = false,
+  onComment,
+  suggestions,
+  onAcceptSuggestion,
+  onRejectSuggestion,
 }: TextBubbleProps) {
   const { settings } = useSettings();
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -169,27 +192,39 @@ export function TextBubble({
         <span className="text-[10px] uppercase tracking-wider text-text-muted">
           pause {durationSeconds.toFixed(1)}s
         </span>
+        {suggestions && suggestions.length > 0 && (
+          <div className="w-full px-3 pb-2">
+            <SuggestionMarks marks={suggestions} onAccept={onAcceptSuggestion} onReject={onRejectSuggestion} />
+          </div>
+        )}
         {settings.infoMode && (
           <span className="absolute top-2 left-3 text-[9px] font-mono text-text-info">
             {formatTime(cumulativeTime)}
           </span>
         )}
-        {/* Needle — top right corner, hover zone */}
-        <div className="absolute -top-3 -right-3 w-10 h-10 z-20 group/needle">
-          <button
-            className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 opacity-0 group-hover/needle:opacity-100 transition-opacity text-text-secondary hover:text-text-primary"
-            onClick={handlePopClick}
-          >
-            <NeedleIcon size={14} />
-          </button>
-        </div>
-        {/* Resize handle — fillers only */}
-        <div
-          className="absolute bottom-0 left-4 right-4 h-3 cursor-ns-resize opacity-0 group-hover:opacity-100 transition-opacity z-10"
-          onMouseDown={handleMouseDown}
-        >
-          <div className="mx-auto w-8 h-0.5 rounded mt-1 bg-stroke-filler" />
-        </div>
+        {!readOnly && (
+          <>
+            {/* Needle — top right corner, hover zone */}
+            <div className="absolute -top-3 -right-3 w-10 h-10 z-20 group/needle">
+              <button
+                className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 opacity-0 group-hover/needle:opacity-100 transition-opacity text-text-secondary hover:text-text-primary"
+                onClick={handlePopClick}
+              >
+                <NeedleIcon size={14} />
+              </button>
+            </div>
+            {/* Resize handle — fillers only */}
+            <div
+              className="absolute bottom-0 left-4 right-4 h-3 cursor-ns-resize opacity-0 group-hover:opacity-100 transition-opacity z-10"
+              onMouseDown={handleMouseDown}
+            >
+              <div className="mx-auto w-8 h-0.5 rounded mt-1 bg-stroke-filler" />
+            </div>
+          </>
+        )}
+        {onComment && (
+          <CommentBadge count={commentCount} canComment={canComment} onClick={() => onComment()} />
+        )}
       </div>
     );
   }
@@ -221,7 +256,7 @@ export function TextBubble({
       )}
 
       {/* Needle — top right corner, hover zone, hidden during edit */}
-      {!isEditing && (
+      {!isEditing && !readOnly && (
         <div className="absolute -top-3 -right-3 w-10 h-10 z-20 group/needle">
           <button
             className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 opacity-0 group-hover/needle:opacity-100 transition-opacity text-text-secondary hover:text-text-primary"
@@ -251,12 +286,17 @@ export function TextBubble({
         onChange={(e) => onContentChange(e.target.value)}
         onKeyDown={handleKeyDown}
         readOnly={!isEditing}
-        className={`w-full bg-transparent text-sm outline-none resize-none leading-relaxed overflow-hidden text-text-primary ${!isEditing ? 'cursor-default pointer-events-none' : ''}`}
+        // Read-only viewers can still select text, to comment on it
+        className={`w-full bg-transparent text-sm outline-none resize-none leading-relaxed overflow-hidden text-text-primary ${!isEditing && !readOnly ? 'cursor-default pointer-events-none' : ''}`}
         style={{ fontFamily: "'SN Pro', sans-serif", fontWeight: 300 }}
         placeholder="Type your voiceover text..."
         tabIndex={isEditing ? 0 : -1}
       />
 
+      {suggestions && suggestions.length > 0 && (
+        <SuggestionMarks marks={suggestions} onAccept={onAcceptSuggestion} onReject={onRejectSuggestion} />
+      )}
+
       {settings.infoMode && (
         <div className="flex justify-between items-center mt-1 text-[10px] flex-shrink-0">
           <span className="text-text-muted">
@@ -267,6 +307,14 @@ export function TextBubble({
           </span>
         </div>
       )}
+
+      {onComment && (
+        <CommentBadge
+          count={commentCount}
+          canComment={canComment}
+          onClick={() => onComment(selectedRange(textareaRef.current))}
+        />
+      )}
     </div>
   );
 }
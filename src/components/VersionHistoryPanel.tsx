@@ -0,0 +1,218 @@
+import { useEffect, useState, useCallback } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import { X, History, RotateCcw, Save, GitCompare } from 'lucide-react';
+import type { Script } from '../types/script';
+import { formatTime, getCumulativeTimes } from '../utils/timing';
+import { ScriptDiffView } from './ScriptDiffView';
+
+interface VersionHistoryPanelProps {
+  scriptId: string;
+  /** The script as currently shown — what "Save version" snapshots */
+  script: Script;
+  onRestore: (script: Script) => void;
+  onClose: () => void;
+  /** Browse and compare only — for people the script is shared with who can't edit it */
+  readOnly?: boolean;
+}
+
+const KIND_LABELS = {
+  auto: 'Autosave',
+  manual: 'Saved version',
+  restore: 'Before restore',
+} as const;
+
+export function VersionHistoryPanel({ scriptId, script, onRestore, onClose, readOnly = false }: VersionHistoryPanelProps) {
+  const versions = useQuery(api.versions.list, { scriptId: scriptId as never });
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = useQuery(
+    api.versions.get,
+    selectedId ? { id: selectedId as never } : 'skip'
+  );
+  const saveVersion = useMutation(api.versions.save);
+  const restoreVersion = useMutation(api.versions.restore);
+  const [label, setLabel] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [comparing, setComparing] = useState(false);
+
+  // Esc to close
+  useEffect(() => {
+    function handleKeyDown(e: KeyboardEvent) {
+      if (e.key === 'Escape') onClose();
+    }
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handleSave = useCallback(async () => {
+    setBusy(true);
+    try {
+      await saveVersion({
+        scriptId: scriptId as never,
+        label,
+        title: script.title,
+        totalDurationSeconds: script.totalDurationSeconds,
+        pairs: script.pairs,
+      });
+      setLabel('');
+    } catch (err) {
+      console.error('Saving version failed:', err);
+    } finally {
+      setBusy(false);
+    }
+  }, [saveVersion, scriptId, label, script]);
+
+  const handleRestore = useCallback(async () => {
+    if (!selectedId) return;
+    setBusy(true);
+    try {
+      const restored = await restoreVersion({ id: selectedId as never });
+      onRestore(restored);
+      onClose();
+    } catch (err) {
+      console.error('Restoring version failed:', err);
+    } finally {
+      setBusy(false);
+    }
+  }, [restoreVersion, selectedId, onRestore, onClose]);
+
+  const previewTimes = selected ? getCumulativeTimes(selected.pairs) : [];
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 z-50 flex items-center justify-center bg-black/60"
+        onMouseDown={onClose}
+      >
+        <div
+          className="flex flex-col w-[min(960px,92vw)] h-[80vh] rounded-xl border border-stroke-strong shadow-lg bg-surface-overlay text-text-primary"
+          onMouseDown={(e) => e.stopPropagation()}
+        >
+          {/* Title bar */}
+          <div className="flex items-center gap-2 px-4 py-3 border-b border-stroke-subtle">
+            <History size={15} className="text-text-secondary" />
+            <span className="text-sm font-medium flex-1">Version history</span>
+            <button className="p-1 rounded text-text-muted hover:text-text-primary" onClick={onClose}>
+              <X size={15} />
+            </button>
+          </div>
+
+          <div className="flex flex-1 min-h-0">
+            {/* Version list */}
+            <div className="w-72 shrink-0 flex flex-col border-r border-stroke-subtle">
+              {!readOnly && (
+                <div className="flex items-center gap-2 p-3 border-b border-stroke-subtle">
+                  <input
+                    type="text"
+                    value={label}
+                    onChange={(e) => setLabel(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+                    placeholder="Version name (optional)"
+                    className="flex-1 min-w-0 text-xs rounded px-2 py-1 border outline-none bg-surface-sunken text-text-primary border-stroke focus:border-accent"
+                  />
+                  <button
+                    className="flex items-center gap-1 px-2 py-1 rounded text-xs text-accent-soft hover:bg-surface-hover disabled:opacity-50"
+                    onClick={handleSave}
+                    disabled={busy}
+                  >
+                    <Save size={12} />
+                    Save
+                  </button>
+                </div>
+              )}
+              <div className="flex-1 overflow-y-auto custom-scrollbar scrollbar-light dark:scrollbar-dark">
+                {versions === undefined && (
+                  <p className="px-4 py-3 text-xs text-text-muted">Loading...</p>
+                )}
+                {versions?.length === 0 && (
+                  <p className="px-4 py-3 text-xs text-text-muted">
+                    No versions yet. Snapshots are taken automatically as you edit.
+                  </p>
+                )}
+                {versions?.map((version) => (
+                  <button
+                    key={version._id}
+                    className={`w-full text-left px-4 py-2 text-sm transition-colors ${
+                      version._id === selectedId
+                        ? 'bg-surface-active text-accent-soft'
+                        : 'hover:bg-surface-hover'
+                    }`}
+                    onClick={() => setSelectedId(version._id)}
+                  >
+                    <div className="truncate">{version.label ?? KIND_LABELS[version.kind]}</div>
+                    <div className="text-[10px] text-text-muted">
+                      {new Date(version.createdAt).toLocaleString()} · {formatTime(version.runtimeSeconds)} · {version.pairCount} segments
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Preview */}
+            <div className="flex-1 flex flex-col min-w-0">
+              {!selectedId && (
+                <div className="flex-1 flex items-center justify-center text-xs text-text-muted">
+                  Select a version to preview it
+                </div>
+              )}
+              {selectedId && selected === undefined && (
+                <div className="flex-1 flex items-center justify-center text-xs text-text-muted">Loading...</div>
+              )}
+              {selected && (
+                <>
+                  <div className="flex items-center gap-2 px-4 py-2 border-b border-stroke-subtle">
+                    <span className="text-sm truncate flex-1">{selected.title}</span>
+                    <button
+                      className="flex items-center gap-1.5 px-3 py-1 rounded text-xs text-text-secondary hover:bg-surface-hover"
+                      onClick={() => setComparing(true)}
+                    >
+                      <GitCompare size={12} />
+                      Compare with current
+                    </button>
+                    {!readOnly && (
+                      <button
+                        className="flex items-center gap-1.5 px-3 py-1 rounded text-xs font-medium bg-accent text-white hover:opacity-90 disabled:opacity-50"
+                        onClick={handleRestore}
+                        disabled={busy}
+                      >
+                        <RotateCcw size={12} />
+                        Restore this version
+                      </button>
+                    )}
+                  </div>
+                  <div className="flex-1 overflow-y-auto px-4 py-3 space-y-2 custom-scrollbar scrollbar-light dark:scrollbar-dark">
+                    {selected.pairs.map((pair, i) => (
+                      <div key={pair.id} className="grid grid-cols-[3rem_1fr_1fr] gap-2 text-xs">
+                        <span className="font-mono text-[10px] text-text-info pt-0.5">{formatTime(previewTimes[i])}</span>
+                        {pair.text.type === 'filler' ? (
+                          <span className="uppercase tracking-wider text-[10px] text-text-muted">
+                            pause {pair.text.durationSeconds.toFixed(1)}s
+                          </span>
+                        ) : (
+                          <span className="whitespace-pre-wrap">{pair.text.content}</span>
+                        )}
+                        <span className="whitespace-pre-wrap italic text-text-visual">
+                          {pair.visualSpan === 0 ? '' : pair.visual.content}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {comparing && selected && (
+        <ScriptDiffView
+          before={selected}
+          after={script}
+          beforeLabel={`${selected.label ?? KIND_LABELS[selected.kind]} · ${new Date(selected.createdAt).toLocaleString()}`}
+          afterLabel="Current"
+          onClose={() => setComparing(false)}
+        />
+      )}
+    </>
+  );
+}
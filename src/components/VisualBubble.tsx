@@ -4,6 +4,12 @@ import { api } from '../../convex/_generated/api';
 import { X, ImagePlus } from 'lucide-react';
 import { PopOverlay } from './PopOverlay';
 import { NeedleIcon } from './NeedleIcon';
+import { CommentBadge } from './CommentBadge';
+import { SuggestionMarks } from './SuggestionMarks';
+import type { SuggestionMark } from '../utils/suggestions';
+import { useStorage } from '../hooks/useStorage';
+import { selectedRange } from '../utils/comments';
+import type { CommentAnchor } from '../types/script';
 
 interface VisualBubbleProps {
   content: string;
@@ -14,7 +20,24 @@ interface VisualBubbleProps {
   onMergeVisualUp: () => void;
   onMergeVisualDown: () => void;
   imageId?: string;
+  /** Without it the image can be viewed but not dropped in or removed */
   onImageChange?: (imageId: string | undefined) => void;
+  /** Someone else is editing this pair — the description is read-only */
+  locked?: boolean;
+  onFocusChange?: (focused: boolean) => void;
+  /** For people who can't edit the script — no needle, uploads or image removal */
+  readOnly?: boolean;
+  /** Public share link the script is viewed through, to resolve images without signing in */
+  shareToken?: string;
+  /** Open comment threads on this bubble */
+  commentCount?: number;
+  canComment?: boolean;
+  /** Open the bubble's comments, starting a thread on the selected text if any */
+  onComment?: (range?: CommentAnchor['range']) => void;
+  /** Pending suggestions on this bubble */
+  suggestions?: SuggestionMark[];
+  onAcceptSuggestion?: (id: string) => void;
+  onRejectSuggestion?: (id: string) => void;
 }
 
 export function VisualBubble({
@@ -27,6 +50,16 @@ export function VisualBubble({
   onMergeVisualDown,
   imageId,
   onImageChange,
+  locked = false,
+  onFocusChange,
+  readOnly = false,
+  shareToken,
+  commentCount = 0,
+  canComment = false,
+  onComment,
+  suggestions,
+  onAcceptSuggestion,
+  onRejectSuggestion,
 }: VisualBubbleProps) {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const [showPop, setShowPop] = useState(false);
@@ -35,11 +68,15 @@ export function VisualBubble({
   const [uploading, setUploading] = useState(false);
   const [lightbox, setLightbox] = useState(false);
 
+  const { currentFileId } = useStorage();
   const generateUploadUrl = useMutation(api.images.generateUploadUrl);
+  const registerUpload = useMutation(api.images.registerUpload);
   const removeImage = useMutation(api.images.removeImage);
+  const canChangeImage = !readOnly && !!onImageChange;
+  const scriptId = currentFileId && !currentFileId.startsWith('pending-') ? currentFileId as never : undefined;
   const imageUrl = useQuery(
     api.images.getImageUrl,
-    imageId ? { storageId: imageId as never } : "skip"
+    imageId ? { storageId: imageId as never, scriptId, shareToken } : "skip"
   );
 
   useLayoutEffect(() => {
@@ -50,7 +87,7 @@ export function VisualBubble({
   }, [content]);
 
   const handleUpload = useCallback(async (file: File) => {
-    if (!file.type.startsWith('image/') || !onImageChange) return;
+    if (!file.type.startsWith('image/') || !onImageChange || !canChangeImage) return;
     setUploading(true);
     try {
       const uploadUrl = await generateUploadUrl();
@@ -60,13 +97,15 @@ export function VisualBubble({
         body: file,
       });
       const { storageId } = await result.json();
+      // Ownership record for access checks and garbage collection
+      await registerUpload({ storageId, scriptId });
       onImageChange(storageId);
     } catch (err) {
       console.error('Image upload failed:', err);
     } finally {
       setUploading(false);
     }
-  }, [generateUploadUrl, onImageChange]);
+  }, [generateUploadUrl, registerUpload, scriptId, onImageChange, canChangeImage]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -80,29 +119,31 @@ export function VisualBubble({
     if (!imageId || !onImageChange) return;
     onImageChange(undefined);
     try {
-      await removeImage({ storageId: imageId as never });
+      await removeImage({ storageId: imageId as never, scriptId });
     } catch (err) {
       console.error('Image removal failed:', err);
     }
-  }, [imageId, onImageChange, removeImage]);
+  }, [imageId, scriptId, onImageChange, removeImage]);
 
   return (
     <div
       className={`relative group rounded-3xl border p-4 h-full flex gap-3 border-stroke-visual bg-surface-visual ${dragging ? 'ring-2 ring-accent' : ''}`}
-      onDragEnter={(e) => { e.preventDefault(); dragCounter.current++; setDragging(true); }}
-      onDragOver={(e) => { e.preventDefault(); }}
-      onDragLeave={() => { dragCounter.current--; if (dragCounter.current <= 0) { dragCounter.current = 0; setDragging(false); } }}
-      onDrop={(e) => { dragCounter.current = 0; handleDrop(e); }}
+      onDragEnter={!canChangeImage ? undefined : (e) => { e.preventDefault(); dragCounter.current++; setDragging(true); }}
+      onDragOver={!canChangeImage ? undefined : (e) => { e.preventDefault(); }}
+      onDragLeave={!canChangeImage ? undefined : () => { dragCounter.current--; if (dragCounter.current <= 0) { dragCounter.current = 0; setDragging(false); } }}
+      onDrop={!canChangeImage ? undefined : (e) => { dragCounter.current = 0; handleDrop(e); }}
     >
       {/* Needle — top right corner, hover zone */}
-      <div className="absolute -top-3 -right-3 w-10 h-10 z-20 group/needle">
-        <button
-          className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 opacity-0 group-hover/needle:opacity-100 transition-opacity text-accent hover:text-accent-soft"
-          onClick={(e) => { e.stopPropagation(); setShowPop(true); }}
-        >
-          <NeedleIcon size={14} />
-        </button>
-      </div>
+      {!readOnly && (
+        <div className="absolute -top-3 -right-3 w-10 h-10 z-20 group/needle">
+          <button
+            className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 opacity-0 group-hover/needle:opacity-100 transition-opacity text-accent hover:text-accent-soft"
+            onClick={(e) => { e.stopPropagation(); setShowPop(true); }}
+          >
+            <NeedleIcon size={14} />
+          </button>
+        </div>
+      )}
 
       {/* Pop Overlay */}
       {showPop && (
@@ -125,12 +166,14 @@ export function VisualBubble({
             className="rounded-2xl object-contain cursor-pointer max-h-20 max-w-24 ring-1 ring-stroke-visual"
             onClick={() => setLightbox(true)}
           />
-          <button
-            className="absolute -top-1.5 -right-1.5 p-0.5 rounded-full opacity-0 group-hover/img:opacity-100 transition-opacity bg-surface-overlay text-danger hover:text-danger shadow-sm"
-            onClick={handleRemoveImage}
-          >
-            <X size={10} />
-          </button>
+          {canChangeImage && (
+            <button
+              className="absolute -top-1.5 -right-1.5 p-0.5 rounded-full opacity-0 group-hover/img:opacity-100 transition-opacity bg-surface-overlay text-danger hover:text-danger shadow-sm"
+              onClick={handleRemoveImage}
+            >
+              <X size={10} />
+            </button>
+          )}
         </div>
       )}
 
@@ -151,14 +194,30 @@ export function VisualBubble({
         </div>
       )}
 
-      <textarea
-        ref={textareaRef}
-        value={content}
-        onChange={(e) => onContentChange(e.target.value)}
-        className="w-full bg-transparent text-sm outline-none resize-none leading-relaxed overflow-hidden italic min-w-0 text-text-visual"
-        style={{ fontFamily: "'SN Pro', sans-serif", fontWeight: 300 }}
-        placeholder={showPlaceholder ? 'Describe the visual...' : undefined}
-      />
+      <div className="flex-1 min-w-0 flex flex-col">
+        <textarea
+          ref={textareaRef}
+          value={content}
+          onChange={(e) => onContentChange(e.target.value)}
+          onFocus={() => { if (!readOnly) onFocusChange?.(true); }}
+          onBlur={() => onFocusChange?.(false)}
+          readOnly={locked || readOnly}
+          className="w-full bg-transparent text-sm outline-none resize-none leading-relaxed overflow-hidden italic min-w-0 text-text-visual"
+          style={{ fontFamily: "'SN Pro', sans-serif", fontWeight: 300 }}
+          placeholder={showPlaceholder ? 'Describe the visual...' : undefined}
+        />
+        {suggestions && suggestions.length > 0 && (
+          <SuggestionMarks marks={suggestions} onAccept={onAcceptSuggestion} onReject={onRejectSuggestion} />
+        )}
+      </div>
+
+      {onComment && (
+        <CommentBadge
+          count={commentCount}
+          canComment={canComment}
+          onClick={() => onComment(selectedRange(textareaRef.current))}
+        />
+      )}
 
       {/* Lightbox */}
       {lightbox && imageUrl && (
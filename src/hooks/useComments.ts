@@ -0,0 +1,25 @@
+import { useMemo } from 'react';
+import { useQuery } from 'convex/react';
+import type { FunctionReturnType } from 'convex/server';
+import { api } from '../../convex/_generated/api';
+
+export type CommentThread = FunctionReturnType<typeof api.comments.list>[number];
+
+const NO_THREADS: CommentThread[] = [];
+
+/**
+ * Comment threads on the open script, plus the number of open threads on
+ * each bubble for the badges in the timeline
+ */
+export function useComments(scriptId: string | null) {
+  const threads = useQuery(api.comments.list, scriptId ? { scriptId: scriptId as never } : 'skip');
+
+  return useMemo(() => {
+    const openCounts = new Map<string, number>();
+    for (const thread of threads ?? []) {
+      if (thread.resolvedAt) continue;
+      openCounts.set(thread.bubbleId, (openCounts.get(thread.bubbleId) ?? 0) + 1);
+    }
+    return { threads: threads ?? NO_THREADS, openCounts };
+  }, [threads]);
+}
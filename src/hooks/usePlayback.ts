@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+/**
+ * A play/pause clock over the script's runtime, for rehearsing against the
+ * timing. `time` is in seconds and advances once per animation frame while
+ * playing; playback stops by itself at the end.
+ */
+export function usePlayback(runtime: number) {
+  const [time, setTime] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  // The clock reads and advances this between renders
+  const timeRef = useRef(0);
+
+  const moveTo = useCallback((t: number) => {
+    timeRef.current = t;
+    setTime(t);
+  }, []);
+
+  useEffect(() => {
+    if (!playing) return;
+    let frame = 0;
+    let last = performance.now();
+    function tick(now: number) {
+      const next = timeRef.current + (now - last) / 1000;
+      last = now;
+      // Stop at the end (the script may also have been shortened under the playhead)
+      if (next >= runtime) {
+        moveTo(runtime);
+        setPlaying(false);
+        return;
+      }
+      moveTo(next);
+      frame = requestAnimationFrame(tick);
+    }
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, runtime, moveTo]);
+
+  const play = useCallback(() => {
+    if (runtime <= 0) return;
+    // Playing again from the end starts over
+    if (timeRef.current >= runtime) moveTo(0);
+    setPlaying(true);
+  }, [runtime, moveTo]);
+
+  const pause = useCallback(() => setPlaying(false), []);
+
+  const toggle = useCallback(() => {
+    if (playing) pause();
+    else play();
+  }, [playing, play, pause]);
+
+  const seek = useCallback((t: number) => {
+    moveTo(Math.max(0, Math.min(runtime, t)));
+  }, [runtime, moveTo]);
+
+  const stop = useCallback(() => {
+    setPlaying(false);
+    moveTo(0);
+  }, [moveTo]);
+
+  return { time: Math.min(time, runtime), playing, play, pause, toggle, seek, stop };
+}
+
+export type Playback = ReturnType<typeof usePlayback>;
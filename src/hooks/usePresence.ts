@@ -0,0 +1,82 @@
+import { useEffect, useMemo } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+
+/** Identifies this browser tab in presence and pair locks */
+export const SESSION_ID = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/** How often an open tab reports itself — the server drops it after 30s of silence */
+const HEARTBEAT_MS = 10 * 1000;
+
+// Literal class names so Tailwind picks them up
+const COLORS = ['bg-sky-500', 'bg-emerald-500', 'bg-amber-500', 'bg-rose-500', 'bg-violet-500', 'bg-teal-500'];
+
+export interface Collaborator {
+  sessionId: string;
+  name: string;
+  /** Background class identifying the user */
+  color: string;
+  editingPairId?: string;
+}
+
+function colorFor(userId: string): string {
+  let hash = 0;
+  for (const ch of userId) hash = (hash * 31 + ch.charCodeAt(0)) | 0;
+  return COLORS[Math.abs(hash) % COLORS.length];
+}
+
+/**
+ * Announce this tab on the open script and see who else is there. Returns
+ * the other sessions and the pairs they hold locked (the earliest claim on
+ * a pair wins, as on the server).
+ */
+export function usePresence(scriptId: string | null, editingPairId: string | null) {
+  const heartbeat = useMutation(api.presence.heartbeat);
+  const leave = useMutation(api.presence.leave);
+  const sessions = useQuery(api.presence.list, scriptId ? { scriptId: scriptId as never } : 'skip');
+
+  useEffect(() => {
+    if (!scriptId) return;
+    const beat = () => {
+      heartbeat({ scriptId: scriptId as never, sessionId: SESSION_ID, editingPairId: editingPairId ?? undefined })
+        .catch(() => { /* offline — presence simply lapses */ });
+    };
+    beat();
+    const timer = setInterval(beat, HEARTBEAT_MS);
+    return () => clearInterval(timer);
+  }, [scriptId, editingPairId, heartbeat]);
+
+  useEffect(() => {
+    if (!scriptId) return;
+    const handlePageHide = () => { leave({ sessionId: SESSION_ID }).catch(() => {}); };
+    window.addEventListener('pagehide', handlePageHide);
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide);
+      handlePageHide();
+    };
+  }, [scriptId, leave]);
+
+  return useMemo(() => {
+    const holders = new Map<string, { sessionId: string; since: number }>();
+    for (const s of sessions ?? []) {
+      if (!s.editingPairId) continue;
+      const since = s.editingSince ?? 0;
+      const holder = holders.get(s.editingPairId);
+      if (!holder || since < holder.since) holders.set(s.editingPairId, { sessionId: s.sessionId, since });
+    }
+    const lockedPairIds = new Set<string>();
+    holders.forEach((holder, pairId) => {
+      if (holder.sessionId !== SESSION_ID) lockedPairIds.add(pairId);
+    });
+
+    const collaborators: Collaborator[] = (sessions ?? [])
+      .filter((s) => s.sessionId !== SESSION_ID)
+      .map((s) => ({
+        sessionId: s.sessionId,
+        name: s.name,
+        color: colorFor(s.userId),
+        editingPairId: s.editingPairId,
+      }));
+    return { collaborators, lockedPairIds };
+  }, [sessions]);
+}
@@ -1,396 +1,291 @@
-import { useState, useCallback } from 'react';
-import type { Script, BubblePair, Bubble } from '../types/script';
-import { generateId } from '../utils/ids';
-import { estimateDuration } from '../utils/timing';
+import { useState, useCallback, useRef } from 'react';
+import type { Script, BubblePair, ScriptOp } from '../types/script';
+import { applyScriptOp, applyScriptOps, createPair, withNewIds } from '../utils/scriptOps';
+import { mergeScripts } from '../utils/mergeScripts';
 
-function createTextBubble(content: string): Bubble {
+export function createDefaultScript(): Script {
   return {
-    id: generateId(),
-    type: 'text',
-    content,
-    durationSeconds: Math.max(estimateDuration(content), 0.5),
+    title: 'Untitled Script',
+    totalDurationSeconds: 120,
+    pairs: [
+      createPair('', ''),
+    ],
   };
 }
 
-function createFillerBubble(duration = 1): Bubble {
-  return {
-    id: generateId(),
-    type: 'filler',
-    content: '',
-    durationSeconds: duration,
-    manualDuration: true,
-  };
+/** Maximum number of undo steps kept per file */
+const MAX_HISTORY = 100;
+
+interface History {
+  past: BubblePair[][];
+  future: BubblePair[][];
+  /** Edit session the latest undo step belongs to — consecutive changes
+   *  with the same group (e.g. keystrokes in one bubble) share a step */
+  group: string | null;
 }
 
-function createVisualBubble(content: string): Bubble {
-  return {
-    id: generateId(),
-    type: 'text',
-    content,
-    durationSeconds: 0,
-  };
+interface ScriptState {
+  script: Script;
+  history: History;
+  /** File the current history belongs to */
+  historyKey: string | null;
+  /** Histories of other files, kept so switching back can still undo */
+  stash: Record<string, History>;
 }
 
-function createPair(text: string, visual: string): BubblePair {
-  return {
-    id: generateId(),
-    text: createTextBubble(text),
-    visual: createVisualBubble(visual),
-  };
+const emptyHistory: History = { past: [], future: [], group: null };
+
+/**
+ * Carry undo/redo snapshots over a rebase: each keeps its own difference
+ * from `from` but takes on whatever else changed in `to`, so stepping back
+ * doesn't erase a collaborator's edits.
+ */
+function rebaseHistory(history: History, from: Script, to: Script): History {
+  const rebase = (pairs: BubblePair[]) => mergeScripts(from, { ...from, pairs }, to).script.pairs;
+  return { ...history, past: history.past.map(rebase), future: history.future.map(rebase) };
 }
 
-export function createDefaultScript(): Script {
-  return {
-    title: 'Untitled Script',
-    totalDurationSeconds: 120,
-    pairs: [
-      createPair('', ''),
-    ],
-  };
+/** Edits not yet handed to storage */
+interface Changes {
+  /** Ops applied since the last `takeChanges`, in order */
+  ops: ScriptOp[];
+  /** Content was replaced wholesale (undo, redo, restore) — ops alone can't describe it */
+  replaced: boolean;
 }
 
 export function useScript(initial?: Script) {
-  const [script, setScript] = useState<Script>(initial ?? createDefaultScript());
+  const [state, setState] = useState<ScriptState>(() => ({
+    script: initial ?? createDefaultScript(),
+    history: emptyHistory,
+    historyKey: null,
+    stash: {},
+  }));
+  const { script, history } = state;
+  const changes = useRef<Changes>({ ops: [], replaced: false });
+
+  /** Run a script update, recording the previous pairs as an undo step.
+   *  Changes sharing a `group` with the previous change are coalesced. */
+  const setScript = useCallback(
+    (updater: (prev: Script) => Script, group: string | null = null) => {
+      setState((s) => {
+        const next = updater(s.script);
+        if (next === s.script) return s;
+        const coalesce = group !== null && s.history.group === group;
+        return {
+          ...s,
+          script: next,
+          history: {
+            past: coalesce
+              ? s.history.past
+              : [...s.history.past, s.script.pairs].slice(-MAX_HISTORY),
+            future: [],
+            group,
+          },
+        };
+      });
+    },
+    []
+  );
 
+  /** Replace the whole script (file switch, import) and swap in that file's history */
+  const loadScript = useCallback((loaded: Script, historyKey: string | null = null) => {
+    setState((s) => {
+      const stash = { ...s.stash };
+      if (s.historyKey) stash[s.historyKey] = { ...s.history, group: null };
+      const history = historyKey ? stash[historyKey] ?? emptyHistory : emptyHistory;
+      if (historyKey) delete stash[historyKey];
+      return { script: loaded, history, historyKey, stash };
+    });
+    changes.current = { ops: [], replaced: false };
+  }, []);
+
+  /**
+   * Swap in a newer version saved elsewhere, replaying edits not yet handed
+   * to storage on top. Undo history is rebased onto it as well.
+   */
+  const rebaseScript = useCallback((remote: Script) => {
+    const next = applyScriptOps(remote, changes.current.ops);
+    setState((s) => ({ ...s, script: next, history: rebaseHistory(s.history, s.script, next) }));
+  }, []);
+
+  /** Collect (and clear) the edits made since the last call */
+  const takeChanges = useCallback((): Changes => {
+    const taken = changes.current;
+    changes.current = { ops: [], replaced: false };
+    return taken;
+  }, []);
+
+  const undo = useCallback(() => {
+    setState((s) => {
+      const { past, future } = s.history;
+      if (past.length === 0) return s;
+      // Only a step actually taken needs the whole content written
+      changes.current.replaced = true;
+      return {
+        ...s,
+        script: { ...s.script, pairs: past[past.length - 1] },
+        history: {
+          past: past.slice(0, -1),
+          future: [s.script.pairs, ...future],
+          group: null,
+        },
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setState((s) => {
+      const { past, future } = s.history;
+      if (future.length === 0) return s;
+      changes.current.replaced = true;
+      return {
+        ...s,
+        script: { ...s.script, pairs: future[0] },
+        history: {
+          past: [...past, s.script.pairs],
+          future: future.slice(1),
+          group: null,
+        },
+      };
+    });
+  }, []);
+
+  /** Replace the current file's content (e.g. restoring a version) as one undoable step */
+  const restoreScript = useCallback((restored: Script) => {
+    changes.current.replaced = true;
+    setScript(() => restored);
+  }, [setScript]);
+
+  // Title and target duration are file metadata — not part of undo history
   const setTitle = useCallback((title: string) => {
-    setScript((prev) => ({ ...prev, title }));
+    setState((s) => ({ ...s, script: { ...s.script, title } }));
   }, []);
 
   const setTotalDuration = useCallback((totalDurationSeconds: number) => {
-    setScript((prev) => ({ ...prev, totalDurationSeconds }));
+    setState((s) => ({ ...s, script: { ...s.script, totalDurationSeconds } }));
   }, []);
 
-  // Content-only update (no duration recalculation) — called on every keystroke
+  /** Apply a script operation as an undo step (coalesced within `group`) */
+  const dispatch = useCallback(
+    (op: ScriptOp, group: string | null = null) => {
+      const stamped = withNewIds(op);
+      changes.current.ops.push(stamped);
+      setScript((prev) => applyScriptOp(prev, stamped), group);
+    },
+    [setScript]
+  );
+
+  // Content-only update — called on every keystroke.
+  // All keystrokes of one edit session form a single undo step.
   const updatePairText = useCallback((pairId: string, content: string) => {
-    setScript((prev) => ({
-      ...prev,
-      pairs: prev.pairs.map((p) =>
-        p.id === pairId
-          ? { ...p, text: { ...p.text, content } }
-          : p
-      ),
-    }));
-  }, []);
+    dispatch({ type: 'updatePairText', pairId, content }, `text:${pairId}`);
+  }, [dispatch]);
 
-  // Recalculate duration from current content — called on blur
+  // Recalculate duration from current content — called on blur.
+  // Folded into the edit session's undo step, then ends the session.
   const commitPairText = useCallback((pairId: string) => {
-    setScript((prev) => ({
-      ...prev,
-      pairs: prev.pairs.map((p) =>
-        p.id === pairId && !p.text.manualDuration
-          ? {
-              ...p,
-              text: {
-                ...p.text,
-                durationSeconds: Math.max(estimateDuration(p.text.content), 0.5),
-              },
-            }
-          : p
-      ),
-    }));
+    changes.current.ops.push({ type: 'commitPairText', pairId });
+    setState((s) => {
+      const inSession = s.history.group === `text:${pairId}`;
+      const next = applyScriptOp(s.script, { type: 'commitPairText', pairId });
+      if (next === s.script) {
+        return inSession ? { ...s, history: { ...s.history, group: null } } : s;
+      }
+      return {
+        ...s,
+        script: next,
+        history: {
+          past: inSession
+            ? s.history.past
+            : [...s.history.past, s.script.pairs].slice(-MAX_HISTORY),
+          future: [],
+          group: null,
+        },
+      };
+    });
   }, []);
 
   const updatePairVisual = useCallback((pairId: string, content: string) => {
-    setScript((prev) => ({
-      ...prev,
-      pairs: prev.pairs.map((p) =>
-        p.id === pairId
-          ? { ...p, visual: { ...p.visual, content } }
-          : p
-      ),
-    }));
-  }, []);
+    dispatch({ type: 'updatePairVisual', pairId, content }, `visual:${pairId}`);
+  }, [dispatch]);
 
   const updateBubbleImage = useCallback(
     (pairId: string, imageId: string | undefined) => {
-      setScript((prev) => ({
-        ...prev,
-        pairs: prev.pairs.map((p) =>
-          p.id === pairId
-            ? { ...p, visual: { ...p.visual, imageId } }
-            : p
-        ),
-      }));
+      dispatch({ type: 'updateBubbleImage', pairId, imageId });
     },
-    []
+    [dispatch]
   );
 
+  // Consecutive resizes of the same bubble (one drag) form a single undo step
   const updateBubbleDuration = useCallback(
     (pairId: string, side: 'text' | 'visual', durationSeconds: number) => {
-      setScript((prev) => ({
-        ...prev,
-        pairs: prev.pairs.map((p) => {
-          if (p.id !== pairId) return p;
-          // Enforce 1s minimum for fillers
-          const min = p.text.type === 'filler' && side === 'text' ? 1 : 0.5;
-          return {
-            ...p,
-            [side]: {
-              ...p[side],
-              durationSeconds: Math.max(min, durationSeconds),
-              manualDuration: true,
-            },
-          };
-        }),
-      }));
+      dispatch(
+        { type: 'updateBubbleDuration', pairId, side, durationSeconds },
+        `duration:${pairId}:${side}`
+      );
     },
-    []
+    [dispatch]
   );
 
   const splitBubble = useCallback(
     (pairId: string, charOffset: number) => {
-      setScript((prev) => {
-        const idx = prev.pairs.findIndex((p) => p.id === pairId);
-        if (idx === -1) return prev;
-
-        const pair = prev.pairs[idx];
-        const textBefore = pair.text.content.slice(0, charOffset).trim();
-        const textAfter = pair.text.content.slice(charOffset).trim();
-
-        // Need at least some text before the split point
-        if (!textBefore) return prev;
-
-        const ratio = pair.text.content.length > 0
-          ? charOffset / pair.text.content.length
-          : 1;
-        const visualSplitPos = Math.round(pair.visual.content.length * ratio);
-        const visualBefore = pair.visual.content.slice(0, visualSplitPos).trim();
-        const visualAfter = pair.visual.content.slice(visualSplitPos).trim();
-
-        const newPair1 = createPair(textBefore, visualBefore || pair.visual.content);
-        const newPair2 = createPair(textAfter, visualAfter || '');
-
-        const newPairs = [...prev.pairs];
-        newPairs.splice(idx, 1, newPair1, newPair2);
-
-        return { ...prev, pairs: newPairs };
-      });
+      dispatch({ type: 'splitBubble', pairId, charOffset });
     },
-    []
+    [dispatch]
   );
 
-  const insertFiller = useCallback((atIndex: number) => {
-    setScript((prev) => {
-      const newPairs = [...prev.pairs];
-
-      // Check if insertion point is inside a visual span (pair at atIndex has visualSpan=0)
-      if (atIndex < newPairs.length && newPairs[atIndex].visualSpan === 0) {
-        // Find span owner by walking up
-        let ownerIdx = atIndex - 1;
-        while (ownerIdx > 0 && newPairs[ownerIdx].visualSpan === 0) {
-          ownerIdx--;
-        }
-        const ownerSpan = newPairs[ownerIdx].visualSpan ?? 1;
-        const spanBefore = atIndex - ownerIdx;
-        const spanAfter = ownerSpan - spanBefore;
-
-        // Shrink owner's span to cover only up to the insertion point
-        newPairs[ownerIdx] = {
-          ...newPairs[ownerIdx],
-          visualSpan: spanBefore === 1 ? undefined : spanBefore,
-        };
-
-        // The pair at atIndex becomes the new span owner for the rest
-        newPairs[atIndex] = {
-          ...newPairs[atIndex],
-          visual: createVisualBubble(''),
-          visualSpan: spanAfter === 1 ? undefined : spanAfter,
-        };
-      }
-
-      const fillerPair: BubblePair = {
-        id: generateId(),
-        text: createFillerBubble(),
-        visual: createVisualBubble(''),
-      };
-      newPairs.splice(atIndex, 0, fillerPair);
-      return { ...prev, pairs: newPairs };
-    });
-  }, []);
+  const insertFiller = useCallback((beforePairId: string) => {
+    dispatch({ type: 'insertFiller', beforePairId });
+  }, [dispatch]);
 
   const deletePair = useCallback((pairId: string) => {
-    setScript((prev) => ({
-      ...prev,
-      pairs: prev.pairs.filter((p) => p.id !== pairId),
-    }));
-  }, []);
+    dispatch({ type: 'deletePair', pairId });
+  }, [dispatch]);
 
   const mergePairUp = useCallback((pairId: string) => {
-    setScript((prev) => {
-      const idx = prev.pairs.findIndex((p) => p.id === pairId);
-      if (idx <= 0) return prev;
-
-      const above = prev.pairs[idx - 1];
-      const current = prev.pairs[idx];
-
-      const mergedTextContent = [above.text.content, current.text.content]
-        .filter(Boolean)
-        .join('\n');
-      const mergedVisualContent = [above.visual.content, current.visual.content]
-        .filter(Boolean)
-        .join('\n');
-
-      const mergedPair: BubblePair = {
-        ...above,
-        text: {
-          ...above.text,
-          content: mergedTextContent,
-          durationSeconds: Math.max(estimateDuration(mergedTextContent), 0.5),
-          manualDuration: undefined,
-        },
-        visual: {
-          ...above.visual,
-          content: mergedVisualContent,
-        },
-        visualSpan: (above.visualSpan ?? 1) + (current.visualSpan ?? 1) - 1,
-      };
-      // Normalize visualSpan: 1 → undefined
-      if (mergedPair.visualSpan === 1) mergedPair.visualSpan = undefined;
-
-      const newPairs = [...prev.pairs];
-      newPairs.splice(idx - 1, 2, mergedPair);
-      return { ...prev, pairs: newPairs };
-    });
-  }, []);
+    dispatch({ type: 'mergePairUp', pairId });
+  }, [dispatch]);
 
   const mergePairDown = useCallback((pairId: string) => {
-    setScript((prev) => {
-      const idx = prev.pairs.findIndex((p) => p.id === pairId);
-      if (idx === -1 || idx >= prev.pairs.length - 1) return prev;
-
-      const current = prev.pairs[idx];
-      const below = prev.pairs[idx + 1];
-
-      const mergedTextContent = [current.text.content, below.text.content]
-        .filter(Boolean)
-        .join('\n');
-      const mergedVisualContent = [current.visual.content, below.visual.content]
-        .filter(Boolean)
-        .join('\n');
-
-      const mergedPair: BubblePair = {
-        ...current,
-        text: {
-          ...current.text,
-          content: mergedTextContent,
-          durationSeconds: Math.max(estimateDuration(mergedTextContent), 0.5),
-          manualDuration: undefined,
-        },
-        visual: {
-          ...current.visual,
-          content: mergedVisualContent,
-        },
-        visualSpan: (current.visualSpan ?? 1) + (below.visualSpan ?? 1) - 1,
-      };
-      if (mergedPair.visualSpan === 1) mergedPair.visualSpan = undefined;
-
-      const newPairs = [...prev.pairs];
-      newPairs.splice(idx, 2, mergedPair);
-      return { ...prev, pairs: newPairs };
-    });
-  }, []);
+    dispatch({ type: 'mergePairDown', pairId });
+  }, [dispatch]);
 
   const mergeVisualUp = useCallback((pairId: string) => {
-    setScript((prev) => {
-      const idx = prev.pairs.findIndex((p) => p.id === pairId);
-      if (idx <= 0) return prev;
-
-      // Walk up to find the span owner
-      let ownerIdx = idx - 1;
-      while (ownerIdx > 0 && prev.pairs[ownerIdx].visualSpan === 0) {
-        ownerIdx--;
-      }
-
-      const owner = prev.pairs[ownerIdx];
-      const current = prev.pairs[idx];
-
-      const mergedVisualContent = [owner.visual.content, current.visual.content]
-        .filter(Boolean)
-        .join('\n');
-
-      const newPairs = prev.pairs.map((p, i) => {
-        if (i === ownerIdx) {
-          return {
-            ...p,
-            visual: { ...p.visual, content: mergedVisualContent },
-            visualSpan: (owner.visualSpan ?? 1) + (current.visualSpan ?? 1),
-          };
-        }
-        if (i === idx) {
-          return { ...p, visualSpan: 0 };
-        }
-        return p;
-      });
-
-      return { ...prev, pairs: newPairs };
-    });
-  }, []);
+    dispatch({ type: 'mergeVisualUp', pairId });
+  }, [dispatch]);
 
   const mergeVisualDown = useCallback((pairId: string) => {
-    setScript((prev) => {
-      const idx = prev.pairs.findIndex((p) => p.id === pairId);
-      if (idx === -1 || idx >= prev.pairs.length - 1) return prev;
-
-      const current = prev.pairs[idx];
-      const below = prev.pairs[idx + 1];
-
-      const mergedVisualContent = [current.visual.content, below.visual.content]
-        .filter(Boolean)
-        .join('\n');
-
-      const newPairs = prev.pairs.map((p, i) => {
-        if (i === idx) {
-          return {
-            ...p,
-            visual: { ...p.visual, content: mergedVisualContent },
-            visualSpan: (current.visualSpan ?? 1) + (below.visualSpan ?? 1),
-          };
-        }
-        if (i === idx + 1) {
-          return { ...p, visualSpan: 0 };
-        }
-        return p;
-      });
-
-      return { ...prev, pairs: newPairs };
-    });
-  }, []);
-
-  const splitVisualSpan = useCallback((atPairIndex: number) => {
-    setScript((prev) => {
-      const pair = prev.pairs[atPairIndex];
-      if (!pair || pair.visualSpan !== 0) return prev;
-
-      // Walk up to find span owner
-      let ownerIdx = atPairIndex - 1;
-      while (ownerIdx > 0 && prev.pairs[ownerIdx].visualSpan === 0) {
-        ownerIdx--;
-      }
-      const ownerSpan = prev.pairs[ownerIdx].visualSpan ?? 1;
-      const spanBefore = atPairIndex - ownerIdx;
-      const spanAfter = ownerSpan - spanBefore;
-
-      const newPairs = prev.pairs.map((p, i) => {
-        if (i === ownerIdx) {
-          return { ...p, visualSpan: spanBefore === 1 ? undefined : spanBefore };
-        }
-        if (i === atPairIndex) {
-          return {
-            ...p,
-            visual: createVisualBubble(''),
-            visualSpan: spanAfter === 1 ? undefined : spanAfter,
-          };
-        }
-        return p;
-      });
-
-      return { ...prev, pairs: newPairs };
-    });
-  }, []);
+    dispatch({ type: 'mergeVisualDown', pairId });
+  }, [dispatch]);
+
+  const splitVisualSpan = useCallback((pairId: string) => {
+    dispatch({ type: 'splitVisualSpan', pairId });
+  }, [dispatch]);
+
+  // Read times measured in a rehearsal (pair id → seconds), set as manual
+  // durations — all of them in a single undo step
+  const setTextDurations = useCallback((durations: Map<string, number>) => {
+    const ops: ScriptOp[] = [...durations].map(([pairId, durationSeconds]) => ({
+      type: 'updateBubbleDuration',
+      pairId,
+      side: 'text',
+      durationSeconds,
+    }));
+    if (ops.length === 0) return;
+    changes.current.ops.push(...ops);
+    setScript((prev) => applyScriptOps(prev, ops));
+  }, [setScript]);
 
   return {
     script,
-    setScript,
+    loadScript,
+    restoreScript,
+    rebaseScript,
+    takeChanges,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
     setTitle,
     setTotalDuration,
     updatePairText,
@@ -406,5 +301,6 @@ export function useScript(initial?: Script) {
     mergeVisualUp,
     mergeVisualDown,
     splitVisualSpan,
+    setTextDurations,
   };
 }
@@ -4,6 +4,9 @@ export interface Settings {
   theme: 'light' | 'dark';
   infoMode: boolean;
   zoom: number; // 0 = fill width (may scroll), 1 = fit height (no scroll)
+  frameRate: number; // timeline exports (FCPXML / EDL / OTIO)
+  teleprompterFontSize: number; // px
+  teleprompterMirror: boolean; // flipped for beam-splitter glass
 }
 
 interface SettingsContext {
@@ -11,12 +14,18 @@ interface SettingsContext {
   toggleTheme: () => void;
   toggleInfoMode: () => void;
   setZoom: (zoom: number) => void;
+  setFrameRate: (frameRate: number) => void;
+  setTeleprompterFontSize: (fontSize: number) => void;
+  toggleTeleprompterMirror: () => void;
 }
 
 const defaultSettings: Settings = {
   theme: 'dark',
   infoMode: true,
   zoom: 0.25,
+  frameRate: 25,
+  teleprompterFontSize: 48,
+  teleprompterMirror: false,
 };
 
 export const SettingsContext = createContext<SettingsContext>({
@@ -24,6 +33,9 @@ export const SettingsContext = createContext<SettingsContext>({
   toggleTheme: () => {},
   toggleInfoMode: () => {},
   setZoom: () => {},
+  setFrameRate: () => {},
+  setTeleprompterFontSize: () => {},
+  toggleTeleprompterMirror: () => {},
 });
 
 export function useSettingsProvider(): SettingsContext {
@@ -34,7 +46,7 @@ export function useSettingsProvider(): SettingsContext {
         const parsed = JSON.parse(saved);
         // migrate old "minimal" key
         if ('minimal' in parsed) {
-          return { theme: parsed.theme ?? 'light', infoMode: !parsed.minimal, zoom: 0 };
+          return { ...defaultSettings, theme: parsed.theme ?? 'light', infoMode: !parsed.minimal, zoom: 0 };
         }
         return { ...defaultSettings, ...parsed };
       }
@@ -59,6 +71,18 @@ export function useSettingsProvider(): SettingsContext {
     save({ ...settings, zoom: Math.max(0, Math.min(1, zoom)) });
   }, [settings, save]);
 
+  const setFrameRate = useCallback((frameRate: number) => {
+    save({ ...settings, frameRate });
+  }, [settings, save]);
+
+  const setTeleprompterFontSize = useCallback((teleprompterFontSize: number) => {
+    save({ ...settings, teleprompterFontSize: Math.max(24, Math.min(120, teleprompterFontSize)) });
+  }, [settings, save]);
+
+  const toggleTeleprompterMirror = useCallback(() => {
+    save({ ...settings, teleprompterMirror: !settings.teleprompterMirror });
+  }, [settings, save]);
+
   // Sync dark class on <html> for CSS custom properties + Tailwind dark: variant
   useEffect(() => {
     document.documentElement.classList.toggle('dark', settings.theme === 'dark');
@@ -76,7 +100,15 @@ export function useSettingsProvider(): SettingsContext {
     return () => document.removeEventListener('keydown', handleKeyDown);
   }, [toggleTheme]);
 
-  return { settings, toggleTheme, toggleInfoMode, setZoom };
+  return {
+    settings,
+    toggleTheme,
+    toggleInfoMode,
+    setZoom,
+    setFrameRate,
+    setTeleprompterFontSize,
+    toggleTeleprompterMirror,
+  };
 }
 
 export function useSettings() {
@@ -1,8 +1,24 @@
-import { useState, useCallback, createContext, useContext, useRef } from 'react';
-import { useQuery, useMutation } from 'convex/react';
+import { useState, useCallback, useEffect, createContext, useContext, useRef } from 'react';
+import { useQuery, useMutation, useConvex, useConvexConnectionState } from 'convex/react';
+import { ConvexError } from 'convex/values';
 import { api } from '../../convex/_generated/api';
-import type { Script } from '../types/script';
+import type { Script, ScriptOp, ScriptRole } from '../types/script';
 import { createDefaultScript } from './useScript';
+import { SESSION_ID } from './usePresence';
+import { repairScript } from '../utils/validateScript';
+import { applyScriptOps } from '../utils/scriptOps';
+import { sameScript } from '../utils/mergeScripts';
+import {
+  getLocalScript,
+  putLocalScript,
+  deleteLocalScript,
+  getOutbox,
+  getOutboxEntry,
+  putOutboxEntry,
+  deleteOutboxEntry,
+  mergeOutboxEntry,
+} from '../utils/localStore';
+import type { OutboxEntry, ScriptPatch } from '../utils/localStore';
 
 interface FileEntry {
   id: string;
@@ -11,142 +27,581 @@ interface FileEntry {
   createdAt: number;
 }
 
+/** Where local edits stand relative to Convex */
+export type SyncStatus = 'synced' | 'saving' | 'offline' | 'error';
+
+/** Local edits rejected because the script was saved elsewhere since they started */
+export interface ScriptConflict {
+  scriptId: string;
+  local: Script;
+  remote: Script;
+  /** What both sides started from, when known — enables a three-way merge */
+  base: Script | null;
+  remoteRevision: number;
+}
+
+/** Structural problems fixed while loading a script — see `repairScript` */
+export interface ScriptRepairs {
+  scriptId: string;
+  title: string;
+  /** One line per issue, saying what was wrong and how it was fixed */
+  messages: string[];
+}
+
+/**
+ * A newer remote version of a script (saved in another tab or by another
+ * editor), with any edits still queued here already replayed on top
+ */
+export interface IncomingScript {
+  scriptId: string;
+  script: Script;
+  /** The server version itself, and its revision — the new base once accepted */
+  remote: Script;
+  revision: number;
+}
+
+interface ScriptBase {
+  revision: number;
+  script: Script | null;
+}
+
 interface StorageContextValue {
+  /** Most recently edited scripts, newest first — the full list lives in the library */
   files: FileEntry[];
   currentFileId: string | null;
-  loadFile: (id: string) => Script | null;
+  /** What the signed-in user may do with the open script — owners and editors can change it */
+  currentRole: ScriptRole;
+  loadFile: (id: string) => Promise<Script | null>;
+  /** Write the whole script — checked against the revision it was based on */
   saveFile: (id: string, script: Script) => void;
-  createFile: (script?: Script) => { id: string; script: Script };
+  /** Write edits as ops, merged with concurrent edits on the server; `script` is the result */
+  saveOps: (id: string, ops: ScriptOp[], script: Script) => void;
+  createFile: (script?: Script, folderId?: string) => { id: string; script: Script };
   deleteFile: (id: string) => void;
   setCurrentFileId: (id: string) => void;
   updateFileTitle: (id: string, title: string) => void;
   isLoading: boolean;
+  syncStatus: SyncStatus;
+  /** Writes waiting in the outbox */
+  pendingWrites: number;
+  conflict: ScriptConflict | null;
+  /** Settle a conflict by saving `script` over the remote version */
+  resolveConflict: (script: Script) => void;
+  incoming: IncomingScript | null;
+  /** Take the incoming version as the new local state */
+  acceptIncoming: () => void;
+  /** What the last load had to repair, until dismissed */
+  repairs: ScriptRepairs | null;
+  dismissRepairs: () => void;
 }
 
 export const StorageContext = createContext<StorageContextValue>({
   files: [],
   currentFileId: null,
-  loadFile: () => null,
+  currentRole: 'owner',
+  loadFile: async () => null,
   saveFile: () => {},
+  saveOps: () => {},
   createFile: () => ({ id: '', script: createDefaultScript() }),
   deleteFile: () => {},
   setCurrentFileId: () => {},
   updateFileTitle: () => {},
   isLoading: true,
+  syncStatus: 'synced',
+  pendingWrites: 0,
+  conflict: null,
+  resolveConflict: () => {},
+  incoming: null,
+  acceptIncoming: () => {},
+  repairs: null,
+  dismissRepairs: () => {},
 });
 
+/** Number of scripts offered for quick switching in the menu */
+const RECENT_COUNT = 5;
+
+/** Writes are batched this long before the outbox is replayed */
+const FLUSH_DELAY_MS = 1000;
+
+/** Shorter batching for ops, so collaborators see edits quickly */
+const OPS_FLUSH_DELAY_MS = 300;
+
+/** A write that keeps failing while connected is dropped after this many attempts */
+const MAX_ATTEMPTS = 5;
+
+const CURRENT_KEY = 'bubblebeats-current';
+
+function isConflictError(err: unknown): boolean {
+  return err instanceof ConvexError && (err.data as { code?: string } | undefined)?.code === 'CONFLICT';
+}
+
+function toScript(doc: Pick<Script, 'title' | 'totalDurationSeconds' | 'pairs'>): Script {
+  return repairScript({ title: doc.title, totalDurationSeconds: doc.totalDurationSeconds, pairs: doc.pairs }).script;
+}
+
+/**
+ * Offline-first storage: every write lands in IndexedDB first (a local copy
+ * of the script plus an outbox entry) and is replayed to Convex while the
+ * connection is up. Reloading or reconnecting resumes the outbox.
+ *
+ * Regular edits are sent as ops and merged with other editors' changes on
+ * the server; the merged result comes back as `incoming`. Whole-script
+ * writes (undo, restore) carry the revision they were based on; if someone
+ * saved in between, the write is held back as a `conflict` for the user to
+ * settle.
+ */
 export function useStorageProvider(): StorageContextValue {
-  const convexScripts = useQuery(api.scripts.list);
+  const convex = useConvex();
+  const connection = useConvexConnectionState();
+  const online = connection.isWebSocketConnected;
+  const recentScripts = useQuery(api.scripts.recent, { limit: RECENT_COUNT });
   const createMutation = useMutation(api.scripts.create);
   const updateMutation = useMutation(api.scripts.update);
+  const applyOpsMutation = useMutation(api.scripts.applyOps);
   const removeMutation = useMutation(api.scripts.remove);
 
   const [currentFileId, setCurrentFileIdState] = useState<string | null>(() => {
     try {
-      return localStorage.getItem('bubblebeats-current');
+      return localStorage.getItem(CURRENT_KEY);
     } catch { return null; }
   });
+  const [pendingWrites, setPendingWrites] = useState(0);
+  const [flushing, setFlushing] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const [conflict, setConflict] = useState<ScriptConflict | null>(null);
+  const [incoming, setIncoming] = useState<IncomingScript | null>(null);
+  const [repairs, setRepairs] = useState<ScriptRepairs | null>(null);
 
-  // Cache loaded scripts client-side to provide sync loadFile()
+  // In-memory copy of scripts loaded or written this session
   const scriptCache = useRef<Map<string, Script>>(new Map());
 
-  // Map Convex results to FileEntry format and populate cache synchronously
-  // (must happen during render so cache is ready before child effects run)
-  const files: FileEntry[] = (convexScripts ?? []).map((s) => {
-    scriptCache.current.set(s._id, {
-      title: s.title,
-      totalDurationSeconds: s.totalDurationSeconds,
-      pairs: s.pairs,
-    });
-    return {
-      id: s._id,
-      title: s.title,
-      updatedAt: s.updatedAt,
-      createdAt: s.createdAt,
-    };
-  });
+  // Repair reports already shown, keyed by id + updatedAt so each stored revision is reported once
+  const reportedRepairs = useRef<Set<string>>(new Set());
+
+  const onlineRef = useRef(online);
+  const flushingRef = useRef(false);
+  const flushTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Serializes outbox read-modify-writes
+  const outboxLock = useRef<Promise<void>>(Promise.resolve());
+
+  // Last server revision seen per script, and its content when known
+  const bases = useRef<Map<string, ScriptBase>>(new Map());
+  // Scripts whose queued write waits for the user to settle a conflict
+  const conflicted = useRef<Set<string>>(new Set());
+  // Number of queued ops in flight per script — merging must not fold into them
+  const sendingOps = useRef<Map<string, number>>(new Map());
+  // Scripts whose ops were merged with someone else's, so the result must be fetched
+  const stale = useRef<Set<string>>(new Set());
+
+  // Live copy of the open script, to notice saves from elsewhere
+  const watchedId = currentFileId && !currentFileId.startsWith('pending-') ? currentFileId : null;
+  const remoteDoc = useQuery(api.scripts.get, watchedId ? { id: watchedId as never } : 'skip');
+
+  // Unsaved and not-yet-loaded scripts count as owned; the server has the last word anyway
+  const currentRole: ScriptRole = remoteDoc && remoteDoc._id === watchedId ? remoteDoc.role : 'owner';
+
+  const files: FileEntry[] = (recentScripts ?? []).map((s) => ({
+    id: s._id,
+    title: s.title,
+    updatedAt: s.updatedAt,
+    createdAt: s.createdAt,
+  }));
 
   const setCurrentFileId = useCallback((id: string) => {
     setCurrentFileIdState(id);
-    try { localStorage.setItem('bubblebeats-current', id); } catch { /* ignore */ }
+    try { localStorage.setItem(CURRENT_KEY, id); } catch { /* ignore */ }
   }, []);
 
-  const loadFile = useCallback((id: string): Script | null => {
-    return scriptCache.current.get(id) ?? null;
+  const withOutbox = useCallback((run: () => Promise<void>) => {
+    outboxLock.current = outboxLock.current.then(run).catch(console.error);
+    return outboxLock.current;
   }, []);
 
-  // Debounce map for saves — prevents hammering Convex on every keystroke
-  const saveTimers = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
+  const refreshPendingWrites = useCallback(async () => {
+    setPendingWrites((await getOutbox().catch(() => [])).length);
+  }, []);
 
-  const saveFile = useCallback((id: string, script: Script) => {
-    // Update cache immediately for local reads
+  /** Send one outbox entry to Convex */
+  const send = useCallback(async (entry: OutboxEntry) => {
+    if (entry.kind === 'create') {
+      const { script, folderId } = entry;
+      const convexId = await createMutation({
+        title: script.title,
+        totalDurationSeconds: script.totalDurationSeconds,
+        pairs: script.pairs,
+        folderId: folderId as never,
+      });
+      // Move the local copy from the temp id to the real one
+      const latest = scriptCache.current.get(entry.scriptId) ?? script;
+      scriptCache.current.delete(entry.scriptId);
+      scriptCache.current.set(convexId, latest);
+      bases.current.set(convexId, { revision: 0, script });
+      await putLocalScript(convexId, latest).catch(console.error);
+      await deleteLocalScript(entry.scriptId).catch(console.error);
+      setCurrentFileIdState((current) => (current === entry.scriptId ? convexId : current));
+      try {
+        if (localStorage.getItem(CURRENT_KEY) === entry.scriptId) localStorage.setItem(CURRENT_KEY, convexId);
+      } catch { /* ignore */ }
+      return convexId;
+    }
+    if (entry.kind === 'update' && entry.ops) {
+      const base = bases.current.get(entry.scriptId);
+      const { revision, skipped } = await applyOpsMutation({
+        id: entry.scriptId as never,
+        ops: entry.ops,
+        sessionId: SESSION_ID,
+        ...entry.patch,
+      });
+      if (base?.script && revision === base.revision + 1 && skipped === 0) {
+        // Nobody else wrote in between: the server now holds exactly base + ops
+        bases.current.set(entry.scriptId, {
+          revision,
+          script: toScript({ ...applyScriptOps(base.script, entry.ops), ...entry.patch }),
+        });
+      } else {
+        stale.current.add(entry.scriptId);
+      }
+    } else if (entry.kind === 'update') {
+      const revision = await updateMutation({
+        id: entry.scriptId as never,
+        ...entry.patch,
+        baseRevision: entry.baseRevision,
+      });
+      const previous = bases.current.get(entry.scriptId);
+      bases.current.set(entry.scriptId, {
+        revision,
+        script: previous?.script ? { ...previous.script, ...entry.patch } : null,
+      });
+      // An unchecked write (title only) may have landed on top of someone else's
+      if (entry.baseRevision === undefined && previous && revision !== previous.revision + 1) {
+        stale.current.add(entry.scriptId);
+      }
+    } else {
+      await removeMutation({ id: entry.scriptId as never });
+    }
+    return entry.scriptId;
+  }, [createMutation, updateMutation, applyOpsMutation, removeMutation]);
+
+  /** Hold back a rejected update and surface both versions */
+  const raiseConflict = useCallback(async (scriptId: string) => {
+    const doc = await convex.query(api.scripts.get, { id: scriptId as never });
+    const local = scriptCache.current.get(scriptId) ?? await getLocalScript(scriptId).catch(() => null);
+    if (!doc || !local) return;
+    conflicted.current.add(scriptId);
+    setConflict({
+      scriptId,
+      local,
+      remote: toScript(doc),
+      base: bases.current.get(scriptId)?.script ?? null,
+      remoteRevision: doc.revision ?? 0,
+    });
+  }, [convex]);
+
+  /** Fetch the merged server version and offer it, with still-queued edits replayed */
+  const pullRemote = useCallback(async (scriptId: string) => {
+    const doc = await convex.query(api.scripts.get, { id: scriptId as never });
+    if (!doc) return;
+    const remote = toScript(doc);
+    const queued = await getOutboxEntry(scriptId).catch(() => null);
+    // A queued whole-script write will be checked (and conflict) when sent
+    if (queued?.kind === 'update' && queued.patch.pairs) return;
+    const script = queued?.kind === 'update'
+      ? { ...applyScriptOps(remote, queued.ops ?? []), ...queued.patch }
+      : remote;
+    setIncoming({ scriptId, script, remote, revision: doc.revision ?? 0 });
+  }, [convex]);
+
+  const flush = useCallback(async () => {
+    if (flushingRef.current || !onlineRef.current) return;
+    flushingRef.current = true;
+    setFlushing(true);
+    try {
+      for (const entry of await getOutbox()) {
+        if (!onlineRef.current) break;
+        if (conflicted.current.has(entry.scriptId)) continue;
+        const sentOps = entry.kind === 'update' ? entry.ops?.length ?? 0 : 0;
+        if (sentOps) sendingOps.current.set(entry.scriptId, sentOps);
+        try {
+          const sentId = await send(entry);
+          setFailed(false);
+          await withOutbox(async () => {
+            sendingOps.current.delete(entry.scriptId);
+            const latest = await getOutboxEntry(entry.scriptId);
+            if (!latest) return;
+            await deleteOutboxEntry(entry.scriptId);
+            // Writes queued while this one was in flight stay queued (under the real id after a create)
+            if (latest.queuedAt !== entry.queuedAt && latest.kind !== 'remove') {
+              const patch: ScriptPatch = latest.kind === 'create'
+                ? { title: latest.script.title, totalDurationSeconds: latest.script.totalDurationSeconds, pairs: latest.script.pairs }
+                : latest.patch;
+              // Ops already sent are dropped; a whole-script write replaced them anyway
+              const ops = latest.kind === 'update' && latest.ops ? latest.ops.slice(sentOps) : [];
+              await putOutboxEntry({
+                scriptId: sentId,
+                kind: 'update',
+                patch,
+                ops: ops.length ? ops : undefined,
+                baseRevision: patch.pairs ? bases.current.get(sentId)?.revision : undefined,
+                queuedAt: latest.queuedAt,
+                attempts: 0,
+              });
+            }
+          });
+          if (stale.current.delete(sentId)) await pullRemote(sentId).catch(console.error);
+        } catch (err) {
+          sendingOps.current.delete(entry.scriptId);
+          if (isConflictError(err)) {
+            // Not a failure to retry: the write stays queued until the user decides
+            await raiseConflict(entry.scriptId).catch(console.error);
+            continue;
+          }
+          console.error('Sync failed:', err);
+          setFailed(true);
+          await withOutbox(async () => {
+            const latest = await getOutboxEntry(entry.scriptId);
+            if (latest?.queuedAt !== entry.queuedAt) return;
+            if (latest.attempts + 1 >= MAX_ATTEMPTS) {
+              console.error(`Dropping write to ${entry.scriptId} after ${MAX_ATTEMPTS} attempts`);
+              await deleteOutboxEntry(entry.scriptId);
+            } else {
+              await putOutboxEntry({ ...latest, attempts: latest.attempts + 1 });
+            }
+          });
+        }
+      }
+    } catch (err) {
+      console.error(err);
+    } finally {
+      flushingRef.current = false;
+      setFlushing(false);
+      await refreshPendingWrites();
+    }
+  }, [send, withOutbox, refreshPendingWrites, raiseConflict, pullRemote]);
+
+  const scheduleFlush = useCallback((delay = FLUSH_DELAY_MS) => {
+    if (flushTimer.current) clearTimeout(flushTimer.current);
+    flushTimer.current = setTimeout(() => { flushTimer.current = null; flush(); }, delay);
+  }, [flush]);
+
+  /** Queue a write; without IndexedDB it's sent straight away instead */
+  const enqueue = useCallback((entry: OutboxEntry, delay?: number) => {
+    withOutbox(async () => {
+      try {
+        const merged = mergeOutboxEntry(
+          await getOutboxEntry(entry.scriptId),
+          entry,
+          sendingOps.current.get(entry.scriptId)
+        );
+        if (merged) await putOutboxEntry(merged);
+        else await deleteOutboxEntry(entry.scriptId);
+      } catch (err) {
+        console.error('Local queue unavailable, writing directly:', err);
+        send(entry).catch(console.error);
+        return;
+      }
+      await refreshPendingWrites();
+      scheduleFlush(delay);
+    });
+  }, [withOutbox, send, refreshPendingWrites, scheduleFlush]);
+
+  // Replay the outbox on startup and whenever the connection comes back
+  useEffect(() => {
+    onlineRef.current = online;
+    if (online) flush();
+  }, [online, flush]);
+
+  useEffect(() => {
+    refreshPendingWrites();
+    return () => { if (flushTimer.current) clearTimeout(flushTimer.current); };
+  }, [refreshPendingWrites]);
+
+  // A newer revision of the open script than the one edits are based on was saved elsewhere
+  useEffect(() => {
+    if (!remoteDoc || !watchedId || remoteDoc._id !== watchedId) return;
+    const revision = remoteDoc.revision ?? 0;
+    const base = bases.current.get(watchedId);
+    if (base && revision <= base.revision) return;
+    let cancelled = false;
+    getOutboxEntry(watchedId).catch(() => null).then((queued) => {
+      // Queued edits (including our own in-flight write) are checked when they're sent
+      if (cancelled || queued) return;
+      const script = toScript(remoteDoc);
+      if (base) setIncoming({ scriptId: watchedId, script, remote: script, revision });
+      else bases.current.set(watchedId, { revision, script });
+    });
+    return () => { cancelled = true; };
+  }, [remoteDoc, watchedId]);
+
+  const acceptIncoming = useCallback(() => {
+    if (!incoming) return;
+    const { scriptId, script, remote, revision } = incoming;
+    bases.current.set(scriptId, { revision, script: remote });
+    scriptCache.current.set(scriptId, script);
+    putLocalScript(scriptId, script).catch(console.error);
+    setIncoming(null);
+  }, [incoming]);
+
+  const resolveConflict = useCallback((script: Script) => {
+    if (!conflict) return;
+    const { scriptId, remote, remoteRevision } = conflict;
+    bases.current.set(scriptId, { revision: remoteRevision, script: remote });
+    scriptCache.current.set(scriptId, script);
+    putLocalScript(scriptId, script).catch(console.error);
+    conflicted.current.delete(scriptId);
+    setConflict(null);
+    withOutbox(async () => {
+      await deleteOutboxEntry(scriptId);
+      if (!sameScript(script, remote)) {
+        await putOutboxEntry({
+          scriptId,
+          kind: 'update',
+          patch: { title: script.title, totalDurationSeconds: script.totalDurationSeconds, pairs: script.pairs },
+          baseRevision: remoteRevision,
+          queuedAt: Date.now(),
+          attempts: 0,
+        });
+      }
+      await refreshPendingWrites();
+      scheduleFlush(0);
+    });
+  }, [conflict, withOutbox, refreshPendingWrites, scheduleFlush]);
+
+  // Scripts are repaired on load so corrupted visualSpans never reach the timeline;
+  // the fix is persisted with the next save.
+  const loadFile = useCallback(async (id: string): Promise<Script | null> => {
+    // Unsynced local state wins over what the server has; offline, the local copy is all there is
+    const queued = await getOutboxEntry(id).catch(() => null);
+    if (id.startsWith('pending-') || queued || !onlineRef.current) {
+      const local = scriptCache.current.get(id) ?? await getLocalScript(id).catch(() => null);
+      if (local || !onlineRef.current) return local;
+    }
+    let doc;
+    try {
+      doc = await convex.query(api.scripts.get, { id: id as never });
+    } catch (err) {
+      console.error(err);
+      return scriptCache.current.get(id) ?? null;
+    }
+    if (!doc) return null;
+
+    const { script, issues } = repairScript({
+      title: doc.title,
+      totalDurationSeconds: doc.totalDurationSeconds,
+      pairs: doc.pairs,
+    });
+    const reportKey = `${doc._id}:${doc.updatedAt}`;
+    if (issues.length > 0 && !reportedRepairs.current.has(reportKey)) {
+      reportedRepairs.current.add(reportKey);
+      setRepairs({ scriptId: id, title: doc.title, messages: issues.map((i) => i.message) });
+    }
     scriptCache.current.set(id, script);
+    bases.current.set(id, { revision: doc.revision ?? 0, script });
+    putLocalScript(id, script).catch(console.error);
+    return script;
+  }, [convex]);
 
-    // Debounce the Convex mutation
-    const existing = saveTimers.current.get(id);
-    if (existing) clearTimeout(existing);
+  const dismissRepairs = useCallback(() => setRepairs(null), []);
 
-    saveTimers.current.set(id, setTimeout(() => {
-      updateMutation({
-        id: id as never,
+  const saveFile = useCallback((id: string, script: Script) => {
+    // Nothing new since the last save or load — unless it's meant to go up against an incoming version
+    if (incoming?.scriptId !== id && sameScript(scriptCache.current.get(id) ?? null, script)) return;
+    // Saving over an unapplied remote version: the write will come back as a conflict
+    setIncoming((current) => (current?.scriptId === id ? null : current));
+    scriptCache.current.set(id, script);
+    putLocalScript(id, script).catch(console.error);
+    enqueue({
+      scriptId: id,
+      kind: 'update',
+      patch: {
         title: script.title,
         totalDurationSeconds: script.totalDurationSeconds,
         pairs: script.pairs,
-      }).catch(console.error);
-      saveTimers.current.delete(id);
-    }, 1000));
-  }, [updateMutation]);
+      },
+      baseRevision: bases.current.get(id)?.revision,
+      queuedAt: Date.now(),
+      attempts: 0,
+    });
+  }, [enqueue, incoming]);
 
-  const createFile = useCallback((script?: Script) => {
+  const saveOps = useCallback((id: string, ops: ScriptOp[], script: Script) => {
+    const cached = scriptCache.current.get(id);
+    scriptCache.current.set(id, script);
+    putLocalScript(id, script).catch(console.error);
+    // Title and target duration ride along only when they changed
+    const patch: ScriptPatch = {};
+    if (cached?.title !== script.title) patch.title = script.title;
+    if (cached?.totalDurationSeconds !== script.totalDurationSeconds) {
+      patch.totalDurationSeconds = script.totalDurationSeconds;
+    }
+    if (ops.length === 0 && Object.keys(patch).length === 0) return;
+    enqueue({
+      scriptId: id,
+      kind: 'update',
+      patch,
+      ops: ops.length ? ops : undefined,
+      queuedAt: Date.now(),
+      attempts: 0,
+    }, OPS_FLUSH_DELAY_MS);
+  }, [enqueue]);
+
+  const createFile = useCallback((script?: Script, folderId?: string) => {
     const s = script ?? createDefaultScript();
-    // Create in Convex — returns a promise with the ID
-    // We need a temporary ID for immediate use
+    // Temporary id until Convex assigns the real one (see `send`)
     const tempId = `pending-${Date.now()}`;
     scriptCache.current.set(tempId, s);
-
-    createMutation({
-      title: s.title,
-      totalDurationSeconds: s.totalDurationSeconds,
-      pairs: s.pairs,
-    }).then((convexId) => {
-      // Move cache entry from temp to real ID
-      scriptCache.current.delete(tempId);
-      scriptCache.current.set(convexId, s);
-      setCurrentFileIdState(convexId);
-      try { localStorage.setItem('bubblebeats-current', convexId); } catch { /* ignore */ }
-    }).catch(console.error);
-
+    putLocalScript(tempId, s).catch(console.error);
+    enqueue({ scriptId: tempId, kind: 'create', script: s, folderId, queuedAt: Date.now(), attempts: 0 }, 0);
     return { id: tempId, script: s };
-  }, [createMutation]);
+  }, [enqueue]);
 
   const deleteFile = useCallback((id: string) => {
     scriptCache.current.delete(id);
-    removeMutation({ id: id as never }).catch(console.error);
-  }, [removeMutation]);
+    deleteLocalScript(id).catch(console.error);
+    enqueue({ scriptId: id, kind: 'remove', queuedAt: Date.now(), attempts: 0 }, 0);
+  }, [enqueue]);
 
   const updateFileTitle = useCallback((id: string, title: string) => {
     const cached = scriptCache.current.get(id);
     if (cached) {
       cached.title = title;
     }
-    updateMutation({
-      id: id as never,
-      title,
-    }).catch(console.error);
-  }, [updateMutation]);
+    enqueue({
+      scriptId: id,
+      kind: 'update',
+      patch: { title },
+      baseRevision: bases.current.get(id)?.revision,
+      queuedAt: Date.now(),
+      attempts: 0,
+    });
+  }, [enqueue]);
+
+  const isLoading = recentScripts === undefined;
 
-  const isLoading = convexScripts === undefined;
+  let syncStatus: SyncStatus = 'synced';
+  if (!online && connection.hasEverConnected) syncStatus = 'offline';
+  else if (failed) syncStatus = 'error';
+  else if (pendingWrites > 0 || flushing) syncStatus = 'saving';
 
   return {
     files,
     currentFileId,
+    currentRole,
     loadFile,
     saveFile,
+    saveOps,
     createFile,
     deleteFile,
     setCurrentFileId,
     updateFileTitle,
     isLoading,
+    syncStatus,
+    pendingWrites,
+    conflict,
+    resolveConflict,
+    incoming,
+    acceptIncoming,
+    repairs,
+    dismissRepairs,
   };
 }
 
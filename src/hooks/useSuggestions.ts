@@ -0,0 +1,105 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import type { Script, ScriptOp } from '../types/script';
+import { applyScriptOps, withNewIds } from '../utils/scriptOps';
+import { appendDraftOp } from '../utils/suggestions';
+import type { PendingSuggestion } from '../utils/suggestions';
+
+/** A dragged duration counts as one suggestion once the handle rests this long */
+const DURATION_SETTLE_MS = 800;
+
+const NO_SUGGESTIONS: PendingSuggestion[] = [];
+
+/** Pending suggestions on the open script, oldest first, and the owner's actions on them */
+export function useSuggestions(scriptId: string | null) {
+  const suggestions = useQuery(api.suggestions.list, scriptId ? { scriptId: scriptId as never } : 'skip');
+  const acceptMutation = useMutation(api.suggestions.accept);
+  const rejectMutation = useMutation(api.suggestions.reject);
+  const acceptAllMutation = useMutation(api.suggestions.acceptAll);
+  const rejectAllMutation = useMutation(api.suggestions.rejectAll);
+
+  const accept = useCallback((id: string) => {
+    acceptMutation({ id: id as never }).catch(console.error);
+  }, [acceptMutation]);
+
+  const reject = useCallback((id: string) => {
+    rejectMutation({ id: id as never }).catch(console.error);
+  }, [rejectMutation]);
+
+  const acceptAll = useCallback(() => {
+    if (scriptId) acceptAllMutation({ scriptId: scriptId as never }).catch(console.error);
+  }, [acceptAllMutation, scriptId]);
+
+  const rejectAll = useCallback(() => {
+    if (scriptId) rejectAllMutation({ scriptId: scriptId as never }).catch(console.error);
+  }, [rejectAllMutation, scriptId]);
+
+  return { suggestions: suggestions ?? NO_SUGGESTIONS, accept, reject, acceptAll, rejectAll };
+}
+
+/**
+ * Suggestion mode: timeline edits go into a draft shown on top of the
+ * script instead of into the script itself. The draft is sent as one
+ * suggestion when the edit is done — on leaving the bubble, right away for
+ * structural changes (split, merge, delete...), or once a duration drag
+ * settles. Returns the script as it looks with the draft applied, the
+ * timeline handlers that feed the draft, and `editingChanged` to call as
+ * the edited bubble changes.
+ */
+export function useSuggestionDraft(scriptId: string | null, script: Script) {
+  const createSuggestion = useMutation(api.suggestions.create);
+  const [ops, setOps] = useState<ScriptOp[]>([]);
+  const opsRef = useRef<ScriptOp[]>([]);
+  const editingRef = useRef<string | null>(null);
+  const settleTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const submit = useCallback(() => {
+    if (settleTimer.current) clearTimeout(settleTimer.current);
+    const pending = opsRef.current;
+    opsRef.current = [];
+    setOps([]);
+    if (!scriptId || pending.length === 0) return;
+    createSuggestion({ scriptId: scriptId as never, ops: pending }).catch(console.error);
+  }, [createSuggestion, scriptId]);
+
+  const add = useCallback((op: ScriptOp, done = false) => {
+    opsRef.current = appendDraftOp(opsRef.current, withNewIds(op));
+    setOps(opsRef.current);
+    if (done) submit();
+  }, [submit]);
+
+  /** Leaving a bubble finishes the edit */
+  const editingChanged = useCallback((pairId: string | null) => {
+    editingRef.current = pairId;
+    if (!pairId) submit();
+  }, [submit]);
+
+  // So does switching scripts — the draft goes to the one it was made on
+  useEffect(() => submit, [submit]);
+
+  const handlers = useMemo(() => ({
+    onUpdateText: (pairId: string, content: string) => add({ type: 'updatePairText', pairId, content }),
+    onCommitText: (pairId: string) => add({ type: 'commitPairText', pairId }),
+    onUpdateVisual: (pairId: string, content: string) => add({ type: 'updatePairVisual', pairId, content }),
+    onSplit: (pairId: string, charOffset: number) => add({ type: 'splitBubble', pairId, charOffset }, true),
+    onInsertFiller: (beforePairId: string) => add({ type: 'insertFiller', beforePairId }, true),
+    onUpdateDuration: (pairId: string, side: 'text' | 'visual', durationSeconds: number) => {
+      add({ type: 'updateBubbleDuration', pairId, side, durationSeconds });
+      if (settleTimer.current) clearTimeout(settleTimer.current);
+      settleTimer.current = setTimeout(() => {
+        if (!editingRef.current) submit();
+      }, DURATION_SETTLE_MS);
+    },
+    onDeletePair: (pairId: string) => add({ type: 'deletePair', pairId }, true),
+    onMergePairUp: (pairId: string) => add({ type: 'mergePairUp', pairId }, true),
+    onMergePairDown: (pairId: string) => add({ type: 'mergePairDown', pairId }, true),
+    onMergeVisualUp: (pairId: string) => add({ type: 'mergeVisualUp', pairId }, true),
+    onMergeVisualDown: (pairId: string) => add({ type: 'mergeVisualDown', pairId }, true),
+    onSplitVisualSpan: (pairId: string) => add({ type: 'splitVisualSpan', pairId }, true),
+  }), [add, submit]);
+
+  const draftScript = useMemo(() => applyScriptOps(script, ops), [script, ops]);
+
+  return { draftScript, handlers, editingChanged, submit };
+}
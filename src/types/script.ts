@@ -27,9 +27,41 @@ export interface Script {
   pairs: BubblePair[];
 }
 
+/** The user's access to a script: its owner, or the role it was shared with */
+export type ScriptRole = 'owner' | 'editor' | 'commenter' | 'viewer';
+
+/** Where a comment thread is attached: a bubble, and optionally a range of its content */
+export interface CommentAnchor {
+  bubbleId: string;
+  side: 'text' | 'visual';
+  /** Character offsets into `Bubble.content`, and the text they covered when commented */
+  range?: { start: number; end: number; quote: string };
+}
+
 export interface FileEntry {
   id: string;
   title: string;
   updatedAt: number;
   createdAt: number;
-}
\ No newline at end of file
+}
+/**
+ * A single structural edit to a Script — see `applyScriptOp`. Every op is
+ * anchored to a pair by id (see `opPairId`), never by position, so it lands
+ * in the same place when replayed on pairs that others have changed. Ops
+ * that create pairs may carry `newIds` so that replaying them (on the
+ * server, or in another tab) yields the same ids — see `withNewIds`.
+ */
+export type ScriptOp =
+  | { type: 'updatePairText'; pairId: string; content: string }
+  | { type: 'commitPairText'; pairId: string }
+  | { type: 'updatePairVisual'; pairId: string; content: string }
+  | { type: 'updateBubbleImage'; pairId: string; imageId: string | undefined }
+  | { type: 'updateBubbleDuration'; pairId: string; side: 'text' | 'visual'; durationSeconds: number }
+  | { type: 'splitBubble'; pairId: string; charOffset: number; newIds?: string[] }
+  | { type: 'insertFiller'; beforePairId: string; newIds?: string[] }
+  | { type: 'deletePair'; pairId: string }
+  | { type: 'mergePairUp'; pairId: string }
+  | { type: 'mergePairDown'; pairId: string }
+  | { type: 'mergeVisualUp'; pairId: string }
+  | { type: 'mergeVisualDown'; pairId: string }
+  | { type: 'splitVisualSpan'; pairId: string };
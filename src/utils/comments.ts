@@ -0,0 +1,12 @@
+import type { CommentAnchor } from '../types/script';
+
+/**
+ * The text selected in a bubble's textarea, as a comment range — only while
+ * the textarea has focus, since it keeps its last selection after blur
+ */
+export function selectedRange(textarea: HTMLTextAreaElement | null): CommentAnchor['range'] {
+  if (!textarea || document.activeElement !== textarea) return undefined;
+  const { selectionStart: start, selectionEnd: end, value } = textarea;
+  if (end <= start) return undefined;
+  return { start, end, quote: value.slice(start, end) };
+}
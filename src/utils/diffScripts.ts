@@ -0,0 +1,198 @@
+import type { Script, BubblePair } from '../types/script';
+import { getCumulativeTimes } from './timing';
+import { findSpanOwner } from './scriptOps';
+
+/** Pairs with different ids are matched when their words overlap at least this much */
+const SIMILARITY_THRESHOLD = 0.5;
+
+export interface WordDiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export type PairChange = 'unchanged' | 'edited' | 'added' | 'removed';
+
+export interface PairDiffRow {
+  change: PairChange;
+  before?: BubblePair;
+  after?: BubblePair;
+  /** Start times on each side's timeline */
+  beforeStart?: number;
+  afterStart?: number;
+  textChanged: boolean;
+  visualChanged: boolean;
+  /** Word-level diff of the voice text (before → after) */
+  textDiff: WordDiffPart[];
+  /** Word-level diff of the visual description (covered pairs use their span owner's) */
+  visualDiff: WordDiffPart[];
+  /** after − before duration in seconds (added/removed rows count from 0) */
+  durationDelta: number;
+}
+
+export interface ScriptDiff {
+  rows: PairDiffRow[];
+  runtimeBefore: number;
+  runtimeAfter: number;
+  runtimeDelta: number;
+  added: number;
+  removed: number;
+  edited: number;
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+/** The visual a pair shows — its own, or its span owner's when covered */
+function effectiveVisual(pairs: BubblePair[], index: number): string {
+  const pair = pairs[index];
+  return pair.visualSpan === 0 ? pairs[findSpanOwner(pairs, index)].visual.content : pair.visual.content;
+}
+
+/** Dice coefficient over the word sets of both bubbles of each pair */
+function similarity(a: BubblePair, b: BubblePair): number {
+  if (a.text.type === 'filler' || b.text.type === 'filler') {
+    return a.text.type === b.text.type ? SIMILARITY_THRESHOLD : 0;
+  }
+  const aWords = new Set(words(`${a.text.content} ${a.visual.content}`));
+  const bWords = new Set(words(`${b.text.content} ${b.visual.content}`));
+  if (aWords.size === 0 && bWords.size === 0) return SIMILARITY_THRESHOLD;
+  let shared = 0;
+  for (const word of aWords) if (bWords.has(word)) shared++;
+  return (2 * shared) / (aWords.size + bWords.size);
+}
+
+/**
+ * Order-preserving alignment maximising total match score: same id scores
+ * 1 (plus a bonus so ids always win), otherwise similarity above threshold.
+ * Returns [beforeIndex, afterIndex] pairs, -1 for unmatched.
+ */
+function alignPairs(before: BubblePair[], after: BubblePair[]): [number, number][] {
+  const n = before.length;
+  const m = after.length;
+  const score = (i: number, j: number) => {
+    if (before[i].id === after[j].id) return 2;
+    const s = similarity(before[i], after[j]);
+    return s >= SIMILARITY_THRESHOLD ? s : -1;
+  };
+
+  // best[i][j] = best score aligning before[i..] with after[j..]
+  const best: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      const s = score(i, j);
+      best[i][j] = Math.max(best[i + 1][j], best[i][j + 1], s >= 0 ? s + best[i + 1][j + 1] : -Infinity);
+    }
+  }
+
+  const result: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    const s = score(i, j);
+    if (s >= 0 && best[i][j] === s + best[i + 1][j + 1]) {
+      result.push([i++, j++]);
+    } else if (best[i][j] === best[i + 1][j]) {
+      result.push([i++, -1]);
+    } else {
+      result.push([-1, j++]);
+    }
+  }
+  while (i < n) result.push([i++, -1]);
+  while (j < m) result.push([-1, j++]);
+  return result;
+}
+
+/** Word-level LCS diff; whitespace is kept attached to the following word */
+export function diffWords(before: string, after: string): WordDiffPart[] {
+  const a = before.match(/\s*\S+/g) ?? [];
+  const b = after.match(/\s*\S+/g) ?? [];
+  const same = (x: string, y: string) => x.trim() === y.trim();
+
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = same(a[i], b[j]) ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: WordDiffPart[] = [];
+  const push = (type: WordDiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (same(a[i], b[j])) {
+      push('same', b[j]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+  return parts;
+}
+
+/**
+ * Compare two versions of a script pair by pair. Pairs are aligned by id
+ * first and by content similarity otherwise (e.g. after a re-import), so
+ * an edited bubble shows up as one edited row rather than remove + add.
+ */
+export function diffScripts(before: Script, after: Script): ScriptDiff {
+  const beforeTimes = getCumulativeTimes(before.pairs);
+  const afterTimes = getCumulativeTimes(after.pairs);
+
+  const rows = alignPairs(before.pairs, after.pairs).map(([bi, ai]): PairDiffRow => {
+    const b = bi >= 0 ? before.pairs[bi] : undefined;
+    const a = ai >= 0 ? after.pairs[ai] : undefined;
+    const beforeText = b?.text.content ?? '';
+    const afterText = a?.text.content ?? '';
+    const beforeVisual = b ? effectiveVisual(before.pairs, bi) : '';
+    const afterVisual = a ? effectiveVisual(after.pairs, ai) : '';
+
+    const textChanged = beforeText !== afterText || b?.text.type !== a?.text.type;
+    const visualChanged = beforeVisual !== afterVisual
+      || b?.visual.imageId !== a?.visual.imageId
+      || (b?.visualSpan ?? 1) !== (a?.visualSpan ?? 1);
+    const durationDelta = (a?.text.durationSeconds ?? 0) - (b?.text.durationSeconds ?? 0);
+
+    let change: PairChange;
+    if (!b) change = 'added';
+    else if (!a) change = 'removed';
+    else change = textChanged || visualChanged || Math.abs(durationDelta) >= 0.05 ? 'edited' : 'unchanged';
+
+    return {
+      change,
+      before: b,
+      after: a,
+      beforeStart: b ? beforeTimes[bi] : undefined,
+      afterStart: a ? afterTimes[ai] : undefined,
+      textChanged,
+      visualChanged,
+      textDiff: diffWords(beforeText, afterText),
+      visualDiff: diffWords(beforeVisual, afterVisual),
+      durationDelta,
+    };
+  });
+
+  const runtimeBefore = before.pairs.reduce((sum, p) => sum + p.text.durationSeconds, 0);
+  const runtimeAfter = after.pairs.reduce((sum, p) => sum + p.text.durationSeconds, 0);
+
+  return {
+    rows,
+    runtimeBefore,
+    runtimeAfter,
+    runtimeDelta: runtimeAfter - runtimeBefore,
+    added: rows.filter((r) => r.change === 'added').length,
+    removed: rows.filter((r) => r.change === 'removed').length,
+    edited: rows.filter((r) => r.change === 'edited').length,
+  };
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import type { Script } from '../types/script';
+import { exportToMarkdown } from './exportMarkdown';
+import { parseScriptMarkdown } from './parseMarkdown';
+import { createFillerBubble, createPair } from './scriptOps';
+
+/** Everything but ids — covered pairs show their owner's visual, so theirs isn't compared */
+function structure(script: Script) {
+  return {
+    title: script.title,
+    totalDurationSeconds: script.totalDurationSeconds,
+    pairs: script.pairs.map((pair) => ({
+      type: pair.text.type,
+      content: pair.text.content,
+      durationSeconds: pair.text.durationSeconds,
+      manualDuration: pair.text.manualDuration ?? false,
+      visual: pair.visualSpan === 0 ? '' : pair.visual.content,
+      visualSpan: pair.visualSpan ?? 1,
+    })),
+  };
+}
+
+function roundTrip(script: Script): Script {
+  return parseScriptMarkdown(exportToMarkdown(script));
+}
+
+describe('markdown export → import', () => {
+  it('reproduces plain pairs', () => {
+    const script: Script = {
+      title: 'Plain',
+      totalDurationSeconds: 90,
+      pairs: [createPair('First line of the voiceover.', 'Opening shot'), createPair('Second line.', '')],
+    };
+    expect(structure(roundTrip(script))).toEqual(structure(script));
+  });
+
+  it('reproduces fillers, spans, manual durations and multi-line visuals', () => {
+    const manual = createPair('Read slower than the estimate.', 'Close-up');
+    const owner = createPair('Intro under a long shot.', 'Wide shot\nSlow pan left\nHold on the horizon');
+    const covered = createPair('Still under the same shot,\nacross two lines.', '');
+    const script: Script = {
+      title: 'Everything',
+      totalDurationSeconds: 150.5,
+      pairs: [
+        { ...manual, text: { ...manual.text, durationSeconds: 4.25, manualDuration: true } },
+        { ...createPair('', ''), text: createFillerBubble(2.5) },
+        { ...owner, visualSpan: 3 },
+        { ...covered, visualSpan: 0 },
+        { ...createPair('Last pair in the span.', ''), visualSpan: 0 },
+        createPair('After the span.\n\nWith a second paragraph.', 'Logo'),
+        { ...createPair('', ''), text: createFillerBubble(1) },
+      ],
+    };
+    expect(structure(roundTrip(script))).toEqual(structure(script));
+  });
+
+  it('is stable when exported again', () => {
+    const script: Script = {
+      title: 'Twice',
+      totalDurationSeconds: 60,
+      pairs: [{ ...createPair('One.', 'A\nB'), visualSpan: 2 }, { ...createPair('Two.', ''), visualSpan: 0 }],
+    };
+    const once = exportToMarkdown(script);
+    expect(exportToMarkdown(parseScriptMarkdown(once))).toBe(once);
+  });
+});
@@ -1,5 +1,11 @@
 import type { Script } from '../types/script';
-import { formatTime } from './timing';
+import { formatTime, getCumulativeTimes } from './timing';
+import { JSON_FORMAT, JSON_FORMAT_VERSION, type ScriptJsonEnvelope } from './parseJson';
+
+/** Format seconds for a markdown annotation: up to 3 decimals, no trailing zeros */
+function formatSeconds(seconds: number): string {
+  return `${Number(seconds.toFixed(3))}s`;
+}
 
 /**
  * Export a Script object to markdown format matching the import format.
@@ -7,6 +13,7 @@ import { formatTime } from './timing';
  * Output:
  * ```
  * # Script Title
+ * <!-- target 120s -->
  *
  * ## Voiceover Script
  *
@@ -14,45 +21,69 @@ import { formatTime } from './timing';
  *
  * Voiceover text here...
  *
- * [0:08] *Another visual*
+ * [0:08 4.5s span 2] *Another visual* *Second visual line*
+ *
+ * More text with a manual duration, its visual spanning two pairs...
+ *
+ * [0:12]
+ *
+ * ...covered by the span above.
  *
- * More text...
+ * [0:15 pause 2s]
  * ```
+ *
+ * Annotations inside the timecode brackets keep the export lossless:
+ * `pause Ns` marks a filler, a bare `Ns` a manual duration and `span N`
+ * a visual covering N pairs. Each visual line becomes its own `*...*`.
  */
 export function exportToMarkdown(script: Script): string {
   const lines: string[] = [];
 
   lines.push(`# ${script.title}`);
+  lines.push(`<!-- target ${formatSeconds(script.totalDurationSeconds)} -->`);
   lines.push('');
   lines.push('## Voiceover Script');
   lines.push('');
 
-  let cumulativeTime = 0;
+  const cumulativeTimes = getCumulativeTimes(script.pairs);
 
-  for (const pair of script.pairs) {
-    const tc = formatTime(cumulativeTime);
+  script.pairs.forEach((pair, i) => {
+    const isFiller = pair.text.type === 'filler';
+    const annotations: string[] = [];
+    if (isFiller) {
+      annotations.push(`pause ${formatSeconds(pair.text.durationSeconds)}`);
+    } else if (pair.text.manualDuration) {
+      annotations.push(formatSeconds(pair.text.durationSeconds));
+    }
+    const span = pair.visualSpan ?? 1;
+    if (span > 1) annotations.push(`span ${span}`);
 
-    if (pair.text.type === 'filler') {
-      // Fillers are represented as empty timecoded sections
-      lines.push(`[${tc}]`);
-      lines.push('');
-    } else {
-      lines.push(`[${tc}]${pair.visual.content ? ` *${pair.visual.content.replace(/\n/g, ' ')}*` : ''}`);
+    // Covered pairs (span 0) show their owner's visual, so they write none
+    const visuals = span === 0
+      ? []
+      : pair.visual.content.split('\n').map((l) => l.trim()).filter(Boolean).map((l) => `*${l}*`);
+
+    const tc = [formatTime(cumulativeTimes[i]), ...annotations].join(' ');
+    lines.push([`[${tc}]`, ...visuals].join(' '));
+    lines.push('');
+    if (!isFiller && pair.text.content) {
+      lines.push(pair.text.content);
       lines.push('');
-      if (pair.text.content) {
-        lines.push(pair.text.content);
-        lines.push('');
-      }
     }
-
-    cumulativeTime += pair.text.durationSeconds;
-  }
+  });
 
   return lines.join('\n');
 }
 
+/** Export a Script as a versioned JSON envelope — see `parseScriptJson` */
 export function exportToJson(script: Script): string {
-  return JSON.stringify(script, null, 2);
+  const envelope: ScriptJsonEnvelope = {
+    format: JSON_FORMAT,
+    version: JSON_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    script,
+  };
+  return JSON.stringify(envelope, null, 2);
 }
 
 export function downloadFile(content: string, filename: string, mimeType: string) {
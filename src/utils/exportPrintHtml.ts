@@ -0,0 +1,126 @@
+import type { Script } from '../types/script';
+import { formatTime, getCumulativeTimes } from './timing';
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** Escape and keep the bubble's own line breaks */
+function multiline(text: string): string {
+  return escapeHtml(text).replace(/\n/g, '<br>');
+}
+
+const PRINT_STYLES = `
+  * { box-sizing: border-box; }
+  body { font-family: 'SN Pro', 'Helvetica Neue', Arial, sans-serif; font-weight: 300; color: #1e293b; margin: 32px; }
+  h1 { font-size: 20px; font-weight: 500; margin: 0 0 4px; }
+  .meta { font-size: 11px; color: #64748b; margin-bottom: 20px; }
+  table { width: 100%; border-collapse: collapse; table-layout: fixed; font-size: 12px; line-height: 1.5; }
+  th { text-align: left; font-size: 10px; font-weight: 500; text-transform: uppercase; letter-spacing: 0.06em; color: #64748b; border-bottom: 2px solid #cbd5e1; padding: 6px 8px; }
+  td { vertical-align: top; border-bottom: 1px solid #e2e8f0; padding: 8px; }
+  col.tc { width: 56px; } col.dur { width: 52px; }
+  .tc, .dur { font-family: ui-monospace, Menlo, monospace; font-size: 10px; color: #64748b; }
+  .visual { font-style: italic; color: #6d28d9; border-left: 1px solid #e2e8f0; }
+  .visual img { display: block; max-width: 100%; max-height: 120px; margin-bottom: 6px; border-radius: 6px; }
+  .pause { text-align: center; font-size: 10px; text-transform: uppercase; letter-spacing: 0.06em; color: #94a3b8; }
+  thead { display: table-header-group; }
+  tr { page-break-inside: avoid; break-inside: avoid; }
+  @page { size: A4 portrait; margin: 16mm; }
+  @media print { body { margin: 0; } }
+`;
+
+/**
+ * Render the classic two-column A/V script as a standalone, print-optimized
+ * HTML page: timecode, duration, voice and visual columns, with merged
+ * visuals (visualSpan) as row-spanning cells.
+ *
+ * `imageUrls` maps `Bubble.imageId` to a URL (or data URL) for thumbnails.
+ * With `autoPrint` the page opens the print dialog once images have loaded.
+ */
+export function exportToPrintHtml(
+  script: Script,
+  imageUrls: Record<string, string> = {},
+  { autoPrint = false }: { autoPrint?: boolean } = {}
+): string {
+  const cumulativeTimes = getCumulativeTimes(script.pairs);
+  const totalDuration = script.pairs.reduce((sum, p) => sum + p.text.durationSeconds, 0);
+
+  const rows = script.pairs.map((pair, i) => {
+    const isFiller = pair.text.type === 'filler';
+    const voice = isFiller
+      ? `<td class="pause">pause ${pair.text.durationSeconds.toFixed(1)}s</td>`
+      : `<td>${multiline(pair.text.content)}</td>`;
+
+    // Covered pairs (span 0) are part of the owner's row-spanning cell
+    const span = pair.visualSpan ?? 1;
+    let visual = '';
+    if (span !== 0) {
+      const imageUrl = pair.visual.imageId ? imageUrls[pair.visual.imageId] : undefined;
+      const image = imageUrl ? `<img src="${escapeHtml(imageUrl)}" alt="">` : '';
+      visual = `<td class="visual"${span > 1 ? ` rowspan="${span}"` : ''}>${image}${multiline(pair.visual.content)}</td>`;
+    }
+
+    return [
+      '<tr>',
+      `<td class="tc">${formatTime(cumulativeTimes[i])}</td>`,
+      `<td class="dur">${pair.text.durationSeconds.toFixed(1)}s</td>`,
+      voice,
+      visual,
+      '</tr>',
+    ].join('');
+  });
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(script.title)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(script.title)}</h1>
+<div class="meta">Runtime ${formatTime(totalDuration)} / target ${formatTime(script.totalDurationSeconds)} · ${script.pairs.length} segments</div>
+<table>
+<colgroup><col class="tc"><col class="dur"><col><col></colgroup>
+<thead><tr><th>TC</th><th>Dur</th><th>Voice</th><th>Visual</th></tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>
+${autoPrint ? '<script>window.addEventListener(\'load\', () => window.print());</script>' : ''}
+</body>
+</html>
+`;
+}
+
+/**
+ * Resolve every image in the script to a data URL so the exported page is
+ * self-contained. Images that can't be fetched fall back to their remote URL.
+ */
+export async function loadImageDataUrls(
+  script: Script,
+  getUrl: (imageId: string) => Promise<string | null>
+): Promise<Record<string, string>> {
+  const imageIds = [...new Set(script.pairs.map((p) => p.visual.imageId).filter((id): id is string => !!id))];
+  const entries = await Promise.all(imageIds.map(async (imageId) => {
+    const url = await getUrl(imageId).catch(() => null);
+    if (!url) return null;
+    try {
+      const blob = await (await fetch(url)).blob();
+      const dataUrl = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+      });
+      return [imageId, dataUrl] as const;
+    } catch {
+      return [imageId, url] as const;
+    }
+  }));
+  return Object.fromEntries(entries.filter((e) => e !== null));
+}
@@ -0,0 +1,125 @@
+import type { Script } from '../types/script';
+import { getCumulativeTimes } from './timing';
+
+export interface SubtitleOptions {
+  /** Maximum characters per caption line */
+  maxCharsPerLine: number;
+  /** Maximum lines per cue */
+  maxLines: number;
+}
+
+/** Common broadcast/streaming caption limits */
+export const DEFAULT_SUBTITLE_OPTIONS: SubtitleOptions = {
+  maxCharsPerLine: 42,
+  maxLines: 2,
+};
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+/** Break words into lines of at most `maxChars` (a longer single word gets its own line) */
+function wrapWords(words: string[], maxChars: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of words) {
+    if (line && line.length + 1 + word.length > maxChars) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+/**
+ * Split one text bubble into cue-sized chunks of lines.
+ * A cue ends early at a sentence boundary once it has a full line, so
+ * cues don't straddle sentences needlessly.
+ */
+function chunkText(text: string, options: SubtitleOptions): string[][] {
+  const lines = wrapWords(text.split(/\s+/).filter(Boolean), options.maxCharsPerLine);
+  const chunks: string[][] = [];
+  let current: string[] = [];
+  for (const line of lines) {
+    current.push(line);
+    if (current.length >= options.maxLines || /[.!?]["')\]]*$/.test(line)) {
+      chunks.push(current);
+      current = [];
+    }
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Build caption cues from the script timeline: one or more cues per text
+ * bubble (fillers are skipped), timed from the same cumulative times the
+ * timeline shows. A bubble split into several cues shares its duration
+ * proportionally to each cue's character count.
+ */
+export function buildSubtitleCues(
+  script: Script,
+  options: SubtitleOptions = DEFAULT_SUBTITLE_OPTIONS
+): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  const cumulativeTimes = getCumulativeTimes(script.pairs);
+
+  script.pairs.forEach((pair, i) => {
+    if (pair.text.type === 'filler' || !pair.text.content.trim()) return;
+
+    const chunks = chunkText(pair.text.content, options);
+    const totalChars = chunks.reduce((sum, c) => sum + c.join(' ').length, 0);
+    let start = cumulativeTimes[i];
+    for (const chunk of chunks) {
+      const duration = pair.text.durationSeconds * (chunk.join(' ').length / totalChars);
+      cues.push({ start, end: start + duration, lines: chunk });
+      start += duration;
+    }
+  });
+
+  return cues;
+}
+
+/** Format seconds as HH:MM:SS,mmm (SRT) or HH:MM:SS.mmm (WebVTT) */
+export function formatTimestamp(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.round(seconds * 1000);
+  const ms = totalMs % 1000;
+  const totalSec = Math.floor(totalMs / 1000);
+  const s = totalSec % 60;
+  const m = Math.floor(totalSec / 60) % 60;
+  const h = Math.floor(totalSec / 3600);
+  const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms, 3)}`;
+}
+
+/** Export text bubbles as SubRip (.srt) captions */
+export function exportToSrt(script: Script, options?: SubtitleOptions): string {
+  return buildSubtitleCues(script, options)
+    .map((cue, i) => [
+      String(i + 1),
+      `${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}`,
+      ...cue.lines,
+      '',
+    ].join('\n'))
+    .join('\n');
+}
+
+/** WebVTT cue text is parsed for markup — escape the reserved characters */
+function escapeVtt(line: string): string {
+  return line.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/** Export text bubbles as WebVTT (.vtt) captions */
+export function exportToVtt(script: Script, options?: SubtitleOptions): string {
+  const cues = buildSubtitleCues(script, options).map((cue) => [
+    `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}`,
+    ...cue.lines.map(escapeVtt),
+    '',
+  ].join('\n'));
+  return ['WEBVTT', '', ...cues].join('\n');
+}
@@ -0,0 +1,206 @@
+import type { Script } from '../types/script';
+import { getCumulativeTimes } from './timing';
+import { findSpanOwner } from './scriptOps';
+
+/** Frame rates offered for timeline exports */
+export const FRAME_RATES = [23.976, 24, 25, 29.97, 30, 50, 59.94, 60];
+
+export interface TimelineMarker {
+  /** Start in frames */
+  start: number;
+  /** Length in frames (at least 1) */
+  duration: number;
+  name: string;
+  /** Voiceover text */
+  comment: string;
+  /** Visual description (a covered pair carries its span owner's visual) */
+  note: string;
+  isFiller: boolean;
+  pairId: string;
+}
+
+/** NTSC rates (23.976, 29.97...) run at N*1000/1001 frames per second */
+function isNtsc(fps: number): boolean {
+  return !Number.isInteger(fps);
+}
+
+/** Nominal integer rate used for timecode counting */
+function timebase(fps: number): number {
+  return Math.round(fps);
+}
+
+function toFrames(seconds: number, fps: number): number {
+  return Math.round(seconds * fps);
+}
+
+/** Format frames as non-drop-frame HH:MM:SS:FF */
+export function formatTimecode(frames: number, fps: number): string {
+  const base = timebase(fps);
+  const ff = frames % base;
+  const totalSec = Math.floor(frames / base);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${pad(Math.floor(totalSec / 3600))}:${pad(Math.floor(totalSec / 60) % 60)}:${pad(totalSec % 60)}:${pad(ff)}`;
+}
+
+/** Collapse a (possibly multi-line) bubble into one line */
+function oneLine(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/** One marker per pair, at the same cumulative times the timeline shows */
+export function buildTimelineMarkers(script: Script, fps: number): TimelineMarker[] {
+  const cumulativeTimes = getCumulativeTimes(script.pairs);
+  return script.pairs.map((pair, i) => {
+    const isFiller = pair.text.type === 'filler';
+    const visualPair = pair.visualSpan === 0 ? script.pairs[findSpanOwner(script.pairs, i)] : pair;
+    const start = toFrames(cumulativeTimes[i], fps);
+    const end = toFrames(cumulativeTimes[i] + pair.text.durationSeconds, fps);
+    return {
+      start,
+      duration: Math.max(1, end - start),
+      name: isFiller ? `${i + 1} - Pause` : `${i + 1}`,
+      comment: oneLine(pair.text.content),
+      note: oneLine(visualPair.visual.content),
+      isFiller,
+      pairId: pair.id,
+    };
+  });
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** FCPXML rational time for a frame count, e.g. `1001/30000s` multiples for 29.97 */
+function fcpTime(frames: number, fps: number): string {
+  if (frames === 0) return '0s';
+  return isNtsc(fps)
+    ? `${frames * 1001}/${timebase(fps) * 1000}s`
+    : `${frames}/${fps}s`;
+}
+
+/** Final Cut Pro XML: a gap spanning the script, carrying one marker per pair */
+export function exportToFcpxml(script: Script, fps: number): string {
+  const markers = buildTimelineMarkers(script, fps);
+  const totalFrames = markers.reduce((max, m) => Math.max(max, m.start + m.duration), 1);
+  const frameDuration = fcpTime(1, fps);
+
+  const markerLines = markers.map((m) => {
+    const value = m.comment || m.name;
+    return `              <marker start="${fcpTime(m.start, fps)}" duration="${frameDuration}" value="${escapeXml(value)}"${m.note ? ` note="${escapeXml(m.note)}"` : ''}/>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE fcpxml>',
+    '<fcpxml version="1.9">',
+    '  <resources>',
+    `    <format id="r1" frameDuration="${frameDuration}" width="1920" height="1080"/>`,
+    '  </resources>',
+    '  <library>',
+    '    <event name="BubbleBeats">',
+    `      <project name="${escapeXml(script.title)}">`,
+    `        <sequence format="r1" duration="${fcpTime(totalFrames, fps)}" tcStart="0s" tcFormat="NDF">`,
+    '          <spine>',
+    `            <gap name="Script" offset="0s" start="0s" duration="${fcpTime(totalFrames, fps)}">`,
+    ...markerLines,
+    '            </gap>',
+    '          </spine>',
+    '        </sequence>',
+    '      </project>',
+    '    </event>',
+    '  </library>',
+    '</fcpxml>',
+    '',
+  ].join('\n');
+}
+
+/** CMX3600 EDL: one event per pair with a LOC marker and the text/visual as comments */
+export function exportToEdl(script: Script, fps: number): string {
+  const markers = buildTimelineMarkers(script, fps);
+  const lines = [
+    `TITLE: ${oneLine(script.title).toUpperCase() || 'UNTITLED'}`,
+    'FCM: NON-DROP FRAME',
+    '',
+  ];
+
+  markers.forEach((m, i) => {
+    const tcIn = formatTimecode(m.start, fps);
+    const tcOut = formatTimecode(m.start + m.duration, fps);
+    const event = String(i + 1).padStart(3, '0');
+    lines.push(`${event}  AX       V     C        ${tcIn} ${tcOut} ${tcIn} ${tcOut}`);
+    lines.push(`* FROM CLIP NAME: ${m.name}`);
+    lines.push(`* LOC: ${tcIn} ${m.isFiller ? 'YELLOW' : 'BLUE'}   ${m.comment || m.name}`);
+    if (m.comment) lines.push(`* COMMENT: ${m.comment}`);
+    if (m.note) lines.push(`* COMMENT: VISUAL: ${m.note}`);
+    lines.push('');
+  });
+
+  return lines.join('\n');
+}
+
+/** OpenTimelineIO JSON: a single gap track with one ranged marker per pair */
+export function exportToOtio(script: Script, fps: number): string {
+  const markers = buildTimelineMarkers(script, fps);
+  const totalFrames = markers.reduce((max, m) => Math.max(max, m.start + m.duration), 1);
+
+  const rationalTime = (frames: number) => ({
+    OTIO_SCHEMA: 'RationalTime.1',
+    rate: fps,
+    value: frames,
+  });
+  const timeRange = (start: number, duration: number) => ({
+    OTIO_SCHEMA: 'TimeRange.1',
+    start_time: rationalTime(start),
+    duration: rationalTime(duration),
+  });
+
+  const timeline = {
+    OTIO_SCHEMA: 'Timeline.1',
+    name: script.title,
+    global_start_time: null,
+    metadata: {},
+    tracks: {
+      OTIO_SCHEMA: 'Stack.1',
+      name: 'tracks',
+      source_range: null,
+      effects: [],
+      metadata: {},
+      markers: markers.map((m) => ({
+        OTIO_SCHEMA: 'Marker.2',
+        name: m.name,
+        color: m.isFiller ? 'YELLOW' : 'BLUE',
+        marked_range: timeRange(m.start, m.duration),
+        comment: m.comment,
+        metadata: { bubblebeats: { pairId: m.pairId, visual: m.note } },
+      })),
+      children: [
+        {
+          OTIO_SCHEMA: 'Track.1',
+          name: 'Script',
+          kind: 'Video',
+          source_range: null,
+          effects: [],
+          markers: [],
+          metadata: {},
+          children: [
+            {
+              OTIO_SCHEMA: 'Gap.1',
+              name: 'Script',
+              source_range: timeRange(0, totalFrames),
+              effects: [],
+              markers: [],
+              metadata: {},
+            },
+          ],
+        },
+      ],
+    },
+  };
+
+  return JSON.stringify(timeline, null, 2);
+}
@@ -0,0 +1,175 @@
+import type { Script, ScriptOp } from '../types/script';
+import { applyScriptOps } from './scriptOps';
+
+/**
+ * IndexedDB persistence for offline editing: a local copy of every script
+ * the user has opened or edited, and an outbox of writes not yet confirmed
+ * by Convex. Both survive reloads; the outbox is replayed on reconnect.
+ */
+
+const DB_NAME = 'bubblebeats';
+const DB_VERSION = 1;
+const SCRIPTS_STORE = 'scripts';
+const OUTBOX_STORE = 'outbox';
+
+export type ScriptPatch = Partial<Pick<Script, 'title' | 'totalDurationSeconds' | 'pairs'>>;
+
+/** One pending write per script, keyed by script id (a `pending-` id for creates) */
+export type OutboxEntry = {
+  scriptId: string;
+  queuedAt: number;
+  /** Failed replay attempts so far */
+  attempts: number;
+} & (
+  | { kind: 'create'; script: Script; folderId?: string }
+  /**
+   * Either a whole-content `patch` checked against `baseRevision` (the
+   * server revision the edits started from), or `ops` to replay on the
+   * latest server state — `patch` then only holds title/duration.
+   */
+  | { kind: 'update'; patch: ScriptPatch; baseRevision?: number; ops?: ScriptOp[] }
+  | { kind: 'remove' }
+);
+
+interface LocalScript {
+  id: string;
+  script: Script;
+  savedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(SCRIPTS_STORE, { keyPath: 'id' });
+        req.result.createObjectStore(OUTBOX_STORE, { keyPath: 'scriptId' });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    // Let a later call retry (e.g. after a blocked upgrade)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const req = run(db.transaction(storeName, mode).objectStore(storeName));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function getLocalScript(id: string): Promise<Script | null> {
+  const entry = await withStore<LocalScript | undefined>(SCRIPTS_STORE, 'readonly', (s) => s.get(id));
+  return entry?.script ?? null;
+}
+
+export async function putLocalScript(id: string, script: Script): Promise<void> {
+  await withStore(SCRIPTS_STORE, 'readwrite', (s) => s.put({ id, script, savedAt: Date.now() } satisfies LocalScript));
+}
+
+export async function deleteLocalScript(id: string): Promise<void> {
+  await withStore(SCRIPTS_STORE, 'readwrite', (s) => s.delete(id));
+}
+
+/** Queued writes, oldest first */
+export async function getOutbox(): Promise<OutboxEntry[]> {
+  const entries = await withStore<OutboxEntry[]>(OUTBOX_STORE, 'readonly', (s) => s.getAll());
+  return entries.sort((a, b) => a.queuedAt - b.queuedAt);
+}
+
+export async function getOutboxEntry(scriptId: string): Promise<OutboxEntry | null> {
+  return (await withStore<OutboxEntry | undefined>(OUTBOX_STORE, 'readonly', (s) => s.get(scriptId))) ?? null;
+}
+
+export async function putOutboxEntry(entry: OutboxEntry): Promise<void> {
+  await withStore(OUTBOX_STORE, 'readwrite', (s) => s.put(entry));
+}
+
+export async function deleteOutboxEntry(scriptId: string): Promise<void> {
+  await withStore(OUTBOX_STORE, 'readwrite', (s) => s.delete(scriptId));
+}
+
+/**
+ * Append ops, keeping only the last of a run of keystrokes in the same
+ * field. The first `frozen` ops are being sent and are never replaced.
+ */
+function appendOps(queued: ScriptOp[], next: ScriptOp[], frozen: number): ScriptOp[] {
+  const ops = [...queued];
+  for (const op of next) {
+    const last = ops[ops.length - 1];
+    const sameField =
+      ops.length > frozen &&
+      last &&
+      (op.type === 'updatePairText' || op.type === 'updatePairVisual') &&
+      last.type === op.type &&
+      last.pairId === op.pairId;
+    if (sameField) ops[ops.length - 1] = op;
+    else ops.push(op);
+  }
+  return ops;
+}
+
+/** Ops folded into a whole-content patch (they apply to its pairs) */
+function foldOps(patch: ScriptPatch, ops: ScriptOp[] | undefined): ScriptPatch {
+  if (!ops?.length || !patch.pairs) return patch;
+  const { pairs } = applyScriptOps({ title: '', totalDurationSeconds: 0, pairs: patch.pairs }, ops);
+  return { ...patch, pairs };
+}
+
+/**
+ * Fold a new write into the one already queued for the same script, so the
+ * outbox holds at most one entry per script. Returns null when the two
+ * cancel out (removing a script that was never created). `sendingOps` is
+ * how many of the queued ops are in flight.
+ */
+export function mergeOutboxEntry(
+  existing: OutboxEntry | null,
+  next: OutboxEntry,
+  sendingOps = 0
+): OutboxEntry | null {
+  if (!existing) return next;
+  const base = { scriptId: next.scriptId, queuedAt: next.queuedAt, attempts: 0 };
+  switch (next.kind) {
+    case 'remove':
+      return existing.kind === 'create' ? null : next;
+    case 'update':
+      if (existing.kind === 'create') {
+        const script = { ...existing.script, ...next.patch };
+        return {
+          ...base,
+          kind: 'create',
+          script: next.ops ? applyScriptOps(script, next.ops) : script,
+          folderId: existing.folderId,
+        };
+      }
+      if (existing.kind === 'update') {
+        const patch = { ...existing.patch, ...next.patch };
+        // A whole-content write supersedes queued ops; ops after one apply to it
+        if (patch.pairs) {
+          return {
+            ...base,
+            kind: 'update',
+            patch: next.patch.pairs ? patch : foldOps(patch, next.ops),
+            // The combined edit still starts from the older base
+            baseRevision: existing.baseRevision ?? next.baseRevision,
+          };
+        }
+        const ops = appendOps(existing.ops ?? [], next.ops ?? [], sendingOps);
+        return { ...base, kind: 'update', patch, ops: ops.length ? ops : undefined };
+      }
+      return existing;
+    case 'create':
+      return next;
+  }
+}
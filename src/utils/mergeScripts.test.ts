@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import type { BubblePair, Script } from '../types/script';
+import { mergeScripts } from './mergeScripts';
+import { createPair } from './scriptOps';
+
+const pairs: Record<string, BubblePair> = Object.fromEntries(
+  ['a', 'b', 'c', 'x', 'y'].map((id) => [id, { ...createPair(`Line ${id}`, ''), id }])
+);
+
+function scriptOf(ids: string): Script {
+  return { title: 'Merge', totalDurationSeconds: 60, pairs: [...ids].map((id) => pairs[id]) };
+}
+
+function idsOf(script: Script): string {
+  return script.pairs.map((p) => p.id).join('');
+}
+
+describe('mergeScripts', () => {
+  it('keeps local additions after their local predecessor', () => {
+    const { script, conflicts } = mergeScripts(scriptOf('abc'), scriptOf('abxc'), scriptOf('abc'));
+    expect(idsOf(script)).toBe('abxc');
+    expect(conflicts).toBe(0);
+  });
+
+  it('anchors a local addition to an earlier pair when its predecessor was deleted remotely', () => {
+    const { script } = mergeScripts(scriptOf('abc'), scriptOf('abxc'), scriptOf('ac'));
+    expect(idsOf(script)).toBe('axc');
+  });
+
+  it('keeps consecutive local additions in order', () => {
+    const { script } = mergeScripts(scriptOf('abc'), scriptOf('abxyc'), scriptOf('ac'));
+    expect(idsOf(script)).toBe('axyc');
+  });
+
+  it('puts a local addition first only when nothing before it survives', () => {
+    const { script } = mergeScripts(scriptOf('abc'), scriptOf('bxc'), scriptOf('c'));
+    expect(idsOf(script)).toBe('xc');
+  });
+
+  it('keeps remote additions and deletions', () => {
+    const { script } = mergeScripts(scriptOf('abc'), scriptOf('abc'), scriptOf('ayc'));
+    expect(idsOf(script)).toBe('ayc');
+  });
+});
@@ -0,0 +1,86 @@
+import type { Script, BubblePair } from '../types/script';
+import { repairScript } from './validateScript';
+
+export interface MergeResult {
+  script: Script;
+  /** Pairs changed on both sides — the local version was kept */
+  conflicts: number;
+}
+
+/** Same content, ignoring anything but what's persisted */
+export function sameScript(a: Script | null, b: Script | null): boolean {
+  if (!a || !b) return a === b;
+  return (
+    a.title === b.title &&
+    a.totalDurationSeconds === b.totalDurationSeconds &&
+    JSON.stringify(a.pairs) === JSON.stringify(b.pairs)
+  );
+}
+
+function samePair(a: BubblePair, b: BubblePair): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Three-way merge of two edits of the same script, pair by pair (by id).
+ * Changes made on only one side are taken from that side; pairs edited on
+ * both keep the local version. Without a `base` every difference counts as
+ * a local edit, so remote-only additions survive but local wins otherwise.
+ */
+export function mergeScripts(base: Script | null, local: Script, remote: Script): MergeResult {
+  const baseById = new Map((base?.pairs ?? []).map((p) => [p.id, p]));
+  const localById = new Map(local.pairs.map((p) => [p.id, p]));
+  const remoteIds = new Set(remote.pairs.map((p) => p.id));
+  let conflicts = 0;
+
+  // Remote order is the skeleton; local changes are applied onto it
+  const merged: BubblePair[] = [];
+  for (const remotePair of remote.pairs) {
+    const basePair = baseById.get(remotePair.id);
+    const localPair = localById.get(remotePair.id);
+    const remoteChanged = !basePair || !samePair(basePair, remotePair);
+
+    if (!localPair) {
+      // Deleted locally: honour it unless remote edited the pair meanwhile
+      if (basePair && remoteChanged) {
+        conflicts++;
+        merged.push(remotePair);
+      } else if (!basePair && base) {
+        merged.push(remotePair);
+      }
+      continue;
+    }
+
+    const localChanged = !basePair || !samePair(basePair, localPair);
+    if (localChanged && remoteChanged && base && !samePair(localPair, remotePair)) conflicts++;
+    merged.push(localChanged ? localPair : remotePair);
+  }
+
+  // Pairs added locally go in after the nearest pair preceding them locally
+  // that survived the merge (the direct predecessor may be deleted remotely)
+  local.pairs.forEach((localPair, i) => {
+    if (remoteIds.has(localPair.id) || baseById.has(localPair.id)) return;
+    let at = 0;
+    for (let j = i - 1; j >= 0; j--) {
+      const prevId = local.pairs[j].id;
+      const prevAt = merged.findIndex((p) => p.id === prevId);
+      if (prevAt !== -1) {
+        at = prevAt + 1;
+        break;
+      }
+    }
+    merged.splice(at, 0, localPair);
+  });
+
+  const pick = <K extends 'title' | 'totalDurationSeconds'>(key: K) =>
+    base && local[key] === base[key] ? remote[key] : local[key];
+
+  return {
+    script: repairScript({
+      title: pick('title'),
+      totalDurationSeconds: pick('totalDurationSeconds'),
+      pairs: merged,
+    }).script,
+    conflicts,
+  };
+}
@@ -0,0 +1,131 @@
+import type { Script, Bubble, BubblePair } from '../types/script';
+import { repairScript } from './validateScript';
+
+/** Identifies a BubbleBeats JSON export */
+export const JSON_FORMAT = 'bubblebeats';
+
+/**
+ * Current JSON export version.
+ *
+ * 1 — bare `Script` object (no envelope)
+ * 2 — `{ format, version, exportedAt, script }` envelope
+ */
+export const JSON_FORMAT_VERSION = 2;
+
+export interface ScriptJsonEnvelope {
+  format: typeof JSON_FORMAT;
+  version: number;
+  /** ISO timestamp of the export */
+  exportedAt: string;
+  script: Script;
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Upgrade steps, keyed by the version they upgrade *from* */
+const upgraders: Record<number, (data: JsonObject) => JsonObject> = {
+  1: (script) => ({
+    format: JSON_FORMAT,
+    version: 2,
+    exportedAt: new Date(0).toISOString(),
+    script,
+  }),
+};
+
+function detectVersion(data: unknown): number {
+  if (isObject(data) && data.format === JSON_FORMAT) {
+    if (typeof data.version !== 'number') {
+      throw new Error('Invalid BubbleBeats file: missing version');
+    }
+    return data.version;
+  }
+  if (isObject(data) && Array.isArray(data.pairs)) return 1;
+  throw new Error('Not a BubbleBeats JSON export');
+}
+
+function readBubble(raw: unknown, path: string): Bubble {
+  if (!isObject(raw)) throw new Error(`${path} must be an object`);
+  if (typeof raw.id !== 'string') throw new Error(`${path}.id must be a string`);
+  if (raw.type !== 'text' && raw.type !== 'filler') {
+    throw new Error(`${path}.type must be "text" or "filler"`);
+  }
+  if (typeof raw.content !== 'string') throw new Error(`${path}.content must be a string`);
+  if (typeof raw.durationSeconds !== 'number') {
+    throw new Error(`${path}.durationSeconds must be a number`);
+  }
+
+  const bubble: Bubble = {
+    id: raw.id,
+    type: raw.type,
+    content: raw.content,
+    durationSeconds: raw.durationSeconds,
+  };
+  if (raw.manualDuration === true) bubble.manualDuration = true;
+  if (typeof raw.imageId === 'string') bubble.imageId = raw.imageId;
+  return bubble;
+}
+
+function readScript(raw: unknown): Script {
+  if (!isObject(raw)) throw new Error('script must be an object');
+  if (!Array.isArray(raw.pairs)) throw new Error('script.pairs must be an array');
+
+  const pairs: BubblePair[] = raw.pairs.map((p: unknown, i) => {
+    const path = `pairs[${i}]`;
+    if (!isObject(p)) throw new Error(`${path} must be an object`);
+    if (typeof p.id !== 'string') throw new Error(`${path}.id must be a string`);
+    const pair: BubblePair = {
+      id: p.id,
+      text: readBubble(p.text, `${path}.text`),
+      visual: readBubble(p.visual, `${path}.visual`),
+    };
+    if (p.visualSpan !== undefined) {
+      if (typeof p.visualSpan !== 'number') throw new Error(`${path}.visualSpan must be a number`);
+      pair.visualSpan = p.visualSpan;
+    }
+    return pair;
+  });
+
+  return {
+    title: typeof raw.title === 'string' && raw.title.trim() ? raw.title : 'Imported Script',
+    totalDurationSeconds: typeof raw.totalDurationSeconds === 'number' && raw.totalDurationSeconds > 0
+      ? raw.totalDurationSeconds
+      : 120,
+    pairs,
+  };
+}
+
+/**
+ * Parse a JSON export (any version) back into a Script — lossless for
+ * fillers, manual durations, visual spans and image IDs.
+ *
+ * Older versions are upgraded step by step to the current envelope before
+ * validation. Throws an Error describing the first problem found.
+ */
+export function parseScriptJson(json: string): Script {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  let version = detectVersion(data);
+  if (version > JSON_FORMAT_VERSION) {
+    throw new Error(`This file was exported by a newer version of BubbleBeats (format v${version})`);
+  }
+
+  let envelope = data as JsonObject;
+  while (version < JSON_FORMAT_VERSION) {
+    const upgrade = upgraders[version];
+    if (!upgrade) throw new Error(`Unsupported format version ${version}`);
+    envelope = upgrade(envelope);
+    version++;
+  }
+
+  const script = readScript(envelope.script);
+  return repairScript(script).script;
+}
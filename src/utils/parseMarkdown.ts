@@ -1,6 +1,36 @@
-import type { Script, BubblePair } from '../types/script';
+import type { Script, BubblePair, Bubble } from '../types/script';
 import { generateId } from './ids';
 import { estimateDuration } from './timing';
+import { repairScript } from './validateScript';
+
+interface SectionAnnotations {
+  /** `pause Ns` — the section is a filler of N seconds */
+  pauseSeconds?: number;
+  /** Bare `Ns` — manual duration of the text bubble */
+  durationSeconds?: number;
+  /** `span N` — the visual covers N pairs */
+  span?: number;
+}
+
+/** Parse the annotations following a timecode, e.g. `pause 2s` or `4.5s span 3` */
+function parseAnnotations(raw: string): SectionAnnotations {
+  const result: SectionAnnotations = {};
+  const tokens = raw.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  for (let i = 0; i < tokens.length; i++) {
+    const seconds = tokens[i + 1]?.match(/^(\d+(?:\.\d+)?)s$/);
+    if (tokens[i] === 'pause' && seconds) {
+      result.pauseSeconds = Number(seconds[1]);
+      i++;
+    } else if (tokens[i] === 'span' && /^\d+$/.test(tokens[i + 1] ?? '')) {
+      result.span = Number(tokens[i + 1]);
+      i++;
+    } else {
+      const own = tokens[i].match(/^(\d+(?:\.\d+)?)s$/);
+      if (own) result.durationSeconds = Number(own[1]);
+    }
+  }
+  return result;
+}
 
 /**
  * Parse a script markdown file into a Script object.
@@ -9,14 +39,20 @@ import { estimateDuration } from './timing';
  * - Only timecodes [M:SS] create bubble breaks
  * - Line breaks within a section are preserved inside the bubble
  * - Timecodes themselves are NOT included in bubble text
- * - Stage directions *...* go to the visual column
+ * - Stage directions *...* go to the visual column (one line each)
  * - First content without an explicit timecode starts at 0:00
+ * - Timecode annotations written by `exportToMarkdown` are restored:
+ *   `[0:12 pause 2s]` filler, `[0:08 4.5s]` manual duration,
+ *   `[0:08 span 3]` visual spanning 3 pairs
+ * - `<!-- target 120s -->` sets the target duration
  */
 export function parseScriptMarkdown(markdown: string): Script {
   // Extract title from first top-level heading
   const titleMatch = markdown.match(/^# (.+)/m);
   const title = titleMatch ? titleMatch[1].trim() : 'Imported Script';
 
+  const targetMatch = markdown.match(/<!--\s*target\s+(\d+(?:\.\d+)?)s\s*-->/);
+
   // Find the voiceover script section
   const scriptSectionMatch = markdown.match(/##\s+Voiceover Script[^\n]*/);
   const startIdx = scriptSectionMatch
@@ -30,24 +66,30 @@ export function parseScriptMarkdown(markdown: string): Script {
     ? restOfDoc.slice(0, nextSectionMatch.index)
     : restOfDoc;
 
-  // Split on timecodes [M:SS] — timecodes are delimiters, not content
-  const parts = scriptContent.split(/\[\d+:\d{2}\]/);
+  // Split on timecodes [M:SS ...annotations] — timecodes are delimiters, not content.
+  // With the capture groups, parts = [preamble, time, annotations, content, time, ...]
+  const parts = scriptContent.split(/\[(\d+:\d{2})([^\]\n]*)\]/);
 
-  // Each part is the content between timecodes (or before the first one)
-  const sections = parts
-    .map((p) => p.trim())
-    .filter((p) => p.length > 0);
+  const sections: { content: string; annotations: SectionAnnotations }[] = [];
+  // Content before the first timecode only counts if there is any
+  if (parts[0].trim()) {
+    sections.push({ content: parts[0].trim(), annotations: {} });
+  }
+  // Timecoded sections are kept even when empty — they are empty pairs or fillers
+  for (let i = 1; i < parts.length; i += 3) {
+    sections.push({ content: parts[i + 2].trim(), annotations: parseAnnotations(parts[i + 1]) });
+  }
 
   if (sections.length === 0) {
     return {
       title,
-      totalDurationSeconds: 120,
+      totalDurationSeconds: targetMatch ? Number(targetMatch[1]) : 120,
       pairs: [createEmptyPair()],
     };
   }
 
   // Parse each section into a bubble pair
-  const pairs: BubblePair[] = sections.map((sectionContent) => {
+  const pairs: BubblePair[] = sections.map(({ content: sectionContent, annotations }) => {
     // Extract stage directions *...*
     const visuals: string[] = [];
     const textContent = sectionContent
@@ -61,30 +103,61 @@ export function parseScriptMarkdown(markdown: string): Script {
     const text = textContent.trim();
     const visual = visuals.join('\n');
 
+    const textBubble: Bubble = annotations.pauseSeconds !== undefined
+      ? {
+          id: generateId(),
+          type: 'filler',
+          content: '',
+          durationSeconds: Math.max(annotations.pauseSeconds, 1),
+          manualDuration: true,
+        }
+      : annotations.durationSeconds !== undefined
+        ? {
+            id: generateId(),
+            type: 'text',
+            content: text,
+            durationSeconds: Math.max(annotations.durationSeconds, 0.5),
+            manualDuration: true,
+          }
+        : {
+            id: generateId(),
+            type: 'text',
+            content: text,
+            durationSeconds: Math.max(estimateDuration(text), 0.5),
+          };
+
     return {
       id: generateId(),
-      text: {
-        id: generateId(),
-        type: 'text' as const,
-        content: text,
-        durationSeconds: Math.max(estimateDuration(text), 0.5),
-      },
+      text: textBubble,
       visual: {
         id: generateId(),
         type: 'text' as const,
         content: visual,
         durationSeconds: 0,
       },
+      visualSpan: annotations.span,
     };
-  }).filter((p) => p.text.content || p.visual.content);
+  });
+
+  // Spans: the pairs following an owner are covered by its visual
+  for (let i = 0; i < pairs.length; i++) {
+    const span = pairs[i].visualSpan ?? 1;
+    for (let j = i + 1; j < i + span && j < pairs.length; j++) {
+      pairs[j].visualSpan = 0;
+    }
+    if (span > 1) i += span - 1;
+  }
 
   const totalDuration = pairs.reduce((sum, p) => sum + p.text.durationSeconds, 0);
 
-  return {
+  const { script } = repairScript({
     title,
-    totalDurationSeconds: Math.max(120, Math.ceil(totalDuration / 10) * 10),
-    pairs: pairs.length > 0 ? pairs : [createEmptyPair()],
-  };
+    totalDurationSeconds: targetMatch
+      ? Number(targetMatch[1])
+      : Math.max(120, Math.ceil(totalDuration / 10) * 10),
+    pairs,
+  });
+  return script;
 }
 
 function createEmptyPair(): BubblePair {
@@ -0,0 +1,119 @@
+import type { Script, BubblePair } from '../types/script';
+import { generateId } from './ids';
+import { createFillerBubble, createVisualBubble } from './scriptOps';
+
+/** Gaps between cues shorter than this are absorbed into the previous bubble
+ *  instead of becoming a filler (fillers have a 1s minimum) */
+const MIN_FILLER_SECONDS = 1;
+
+interface Cue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const TIMESTAMP = /(?:(\d+):)?(\d{1,2}):(\d{2})[,.](\d{1,3})/;
+
+/** Parse `HH:MM:SS,mmm` (SRT) or `[HH:]MM:SS.mmm` (WebVTT) into seconds */
+function parseTimestamp(raw: string): number | null {
+  const match = raw.trim().match(TIMESTAMP);
+  if (!match) return null;
+  const [, h, m, s, ms] = match;
+  return Number(h ?? 0) * 3600 + Number(m) * 60 + Number(s) + Number(ms.padEnd(3, '0')) / 1000;
+}
+
+/** Strip cue markup (<i>, <v Speaker>, {\an8}...) and decode the basic entities */
+function cleanCueText(lines: string[]): string {
+  return lines
+    .join(' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/\{\\[^}]*\}/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function parseCues(content: string): Cue[] {
+  const blocks = content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n{2,}/);
+
+  const cues: Cue[] = [];
+  for (const block of blocks) {
+    const lines = block.split('\n').filter((l) => l.trim());
+    // The timing line may be preceded by a cue number (SRT) or identifier (WebVTT);
+    // blocks without one (WEBVTT header, NOTE, STYLE) are skipped
+    const timingIdx = lines.findIndex((l) => l.includes('-->'));
+    if (timingIdx === -1) continue;
+
+    const [startRaw, endRaw] = lines[timingIdx].split('-->');
+    const start = parseTimestamp(startRaw);
+    const end = parseTimestamp(endRaw);
+    if (start === null || end === null) continue;
+
+    const text = cleanCueText(lines.slice(timingIdx + 1));
+    if (text) cues.push({ start, end: Math.max(start, end), text });
+  }
+
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Parse SRT or WebVTT captions into a timed Script.
+ *
+ * Each cue becomes a text bubble whose manual duration is the cue length;
+ * gaps between cues become filler pairs, so every bubble starts at its
+ * cue's start time on the timeline.
+ */
+export function parseSubtitles(content: string, title = 'Imported Captions'): Script {
+  const cues = parseCues(content);
+  if (cues.length === 0) {
+    throw new Error('No caption cues found');
+  }
+
+  const pairs: BubblePair[] = [];
+  let cursor = 0;
+
+  for (const cue of cues) {
+    const gap = cue.start - cursor;
+    const previous = pairs[pairs.length - 1];
+
+    if (gap >= MIN_FILLER_SECONDS) {
+      pairs.push({
+        id: generateId(),
+        text: createFillerBubble(gap),
+        visual: createVisualBubble(''),
+      });
+    } else if (gap > 0 && previous) {
+      previous.text.durationSeconds += gap;
+    }
+
+    // Overlapping cues start where the previous one ended; a short leading gap is absorbed here
+    const start = previous || gap >= MIN_FILLER_SECONDS ? Math.max(cue.start, cursor) : 0;
+    const duration = Math.max(cue.end - start, 0.5);
+    pairs.push({
+      id: generateId(),
+      text: {
+        id: generateId(),
+        type: 'text',
+        content: cue.text,
+        durationSeconds: duration,
+        manualDuration: true,
+      },
+      visual: createVisualBubble(''),
+    });
+    cursor = start + duration;
+  }
+
+  const totalDuration = pairs.reduce((sum, p) => sum + p.text.durationSeconds, 0);
+
+  return {
+    title,
+    totalDurationSeconds: Math.max(120, Math.ceil(totalDuration / 10) * 10),
+    pairs,
+  };
+}
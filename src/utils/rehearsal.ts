@@ -0,0 +1,38 @@
+import type { BubblePair } from '../types/script';
+import { countWords, estimateDuration } from './timing';
+
+/** One text bubble's read time next to what the script assumes */
+export interface RehearsalRow {
+  pairId: string;
+  content: string;
+  /** Flat-WPM estimate for the content */
+  estimated: number;
+  /** Duration currently in the script (estimated or set by hand) */
+  current: number;
+  measured: number;
+}
+
+/** Bubbles a narrator reads aloud, in order — pauses are timed as they are */
+export function readablePairs(pairs: BubblePair[]): BubblePair[] {
+  return pairs.filter((pair) => pair.text.type !== 'filler' && pair.text.content.trim());
+}
+
+/** Rows for every bubble that was measured, in script order */
+export function compareToEstimates(pairs: BubblePair[], measured: Map<string, number>): RehearsalRow[] {
+  return readablePairs(pairs)
+    .filter((pair) => measured.has(pair.id))
+    .map((pair) => ({
+      pairId: pair.id,
+      content: pair.text.content,
+      estimated: estimateDuration(pair.text.content),
+      current: pair.text.durationSeconds,
+      measured: measured.get(pair.id)!,
+    }));
+}
+
+/** The narrator's actual speaking rate over the measured bubbles, in words per minute */
+export function measuredWordsPerMinute(rows: RehearsalRow[]): number {
+  const words = rows.reduce((sum, row) => sum + countWords(row.content), 0);
+  const seconds = rows.reduce((sum, row) => sum + row.measured, 0);
+  return seconds > 0 ? (words / seconds) * 60 : 0;
+}
@@ -0,0 +1,24 @@
+import type { ScriptRole } from '../types/script';
+
+export const ROLE_LABELS: Record<ScriptRole, string> = {
+  owner: 'Owner',
+  editor: 'Can edit',
+  commenter: 'Can comment',
+  viewer: 'Can view',
+};
+
+/** Roles an owner can hand out */
+export const SHARE_ROLES = ['viewer', 'commenter', 'editor'] as const;
+
+export function canEdit(role: ScriptRole): boolean {
+  return role === 'owner' || role === 'editor';
+}
+
+export function canComment(role: ScriptRole): boolean {
+  return role !== 'viewer';
+}
+
+/** Reviewers who propose changes for the owner to accept */
+export function canSuggest(role: ScriptRole): boolean {
+  return role === 'editor' || role === 'commenter';
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import type { BubblePair, Script, ScriptOp } from '../types/script';
+import { applyScriptOp, createPair } from './scriptOps';
+import { repairScript } from './validateScript';
+
+/** A script whose pairs have the given visualSpans (1 = plain pair) */
+function scriptWithSpans(spans: number[]): Script {
+  return {
+    title: 'Test',
+    totalDurationSeconds: 60,
+    pairs: spans.map((span, i) => {
+      const pair = createPair(`Line ${i} has a few words`, `Visual ${i}`);
+      return span === 1 ? pair : { ...pair, visualSpan: span };
+    }),
+  };
+}
+
+function spansOf(script: Script): number[] {
+  return script.pairs.map((p) => p.visualSpan ?? 1);
+}
+
+/** Every op that can be applied to the script, at every pair */
+function allOps(pairs: BubblePair[]): ScriptOp[] {
+  const ops: ScriptOp[] = [];
+  pairs.forEach((pair) => {
+    const pairId = pair.id;
+    ops.push(
+      { type: 'updatePairText', pairId, content: 'Changed text' },
+      { type: 'commitPairText', pairId },
+      { type: 'updatePairVisual', pairId, content: 'Changed visual' },
+      { type: 'updateBubbleImage', pairId, imageId: 'image' },
+      { type: 'updateBubbleDuration', pairId, side: 'text', durationSeconds: 3 },
+      { type: 'splitBubble', pairId, charOffset: 7 },
+      { type: 'deletePair', pairId },
+      { type: 'mergePairUp', pairId },
+      { type: 'mergePairDown', pairId },
+      { type: 'mergeVisualUp', pairId },
+      { type: 'mergeVisualDown', pairId },
+      { type: 'splitVisualSpan', pairId },
+      { type: 'insertFiller', beforePairId: pairId }
+    );
+  });
+  return ops;
+}
+
+const LAYOUTS: number[][] = [
+  [1],
+  [1, 1, 1],
+  [2, 0],
+  [3, 0, 0],
+  [1, 3, 0, 0, 1],
+  [3, 0, 0, 2, 0],
+  [2, 0, 1, 2, 0, 1],
+  [4, 0, 0, 0],
+];
+
+describe('applyScriptOp keeps visualSpan invariants', () => {
+  for (const spans of LAYOUTS) {
+    it(`spans [${spans.join(', ')}]`, () => {
+      const script = scriptWithSpans(spans);
+      expect(repairScript(script).issues).toEqual([]);
+      for (const op of allOps(script.pairs)) {
+        const result = applyScriptOp(script, op);
+        expect(repairScript(result).issues, `${op.type} ${JSON.stringify(op)} → [${spansOf(result).join(', ')}]`).toEqual([]);
+      }
+    });
+  }
+
+  it('keeps invariants over a long run of ops', () => {
+    let script = scriptWithSpans([1, 3, 0, 0, 2, 0, 1]);
+    for (let step = 0; step < 200; step++) {
+      const ops = allOps(script.pairs);
+      // Deterministic walk through the available ops
+      const op = ops[(step * 7919) % ops.length];
+      script = applyScriptOp(script, op);
+      expect(repairScript(script).issues, `step ${step}: ${op.type}`).toEqual([]);
+    }
+  });
+});
+
+describe('span edits', () => {
+  it('merging a covered pair up into another covered pair shrinks the span', () => {
+    const script = scriptWithSpans([3, 0, 0, 1]);
+    const result = applyScriptOp(script, { type: 'mergePairUp', pairId: script.pairs[2].id });
+    expect(spansOf(result)).toEqual([2, 0, 1]);
+  });
+
+  it('merging the visual down from a covered pair merges its whole span', () => {
+    const script = scriptWithSpans([3, 0, 0, 1]);
+    const result = applyScriptOp(script, { type: 'mergeVisualDown', pairId: script.pairs[1].id });
+    expect(spansOf(result)).toEqual([4, 0, 0, 0]);
+    expect(result.pairs[0].visual.content).toBe('Visual 0\nVisual 3');
+  });
+
+  it('splitting a span owner keeps its covered pairs in the span', () => {
+    const script = scriptWithSpans([3, 0, 0]);
+    const result = applyScriptOp(script, { type: 'splitBubble', pairId: script.pairs[0].id, charOffset: 7 });
+    expect(spansOf(result)).toEqual([4, 0, 0, 0]);
+    expect(result.pairs[0].visual).toEqual(script.pairs[0].visual);
+  });
+
+  it('splitting a covered pair grows the span', () => {
+    const script = scriptWithSpans([2, 0, 1]);
+    const result = applyScriptOp(script, { type: 'splitBubble', pairId: script.pairs[1].id, charOffset: 7 });
+    expect(spansOf(result)).toEqual([3, 0, 0, 1]);
+  });
+
+  it('merging a covered pair with the span below hands that visual to its next pair', () => {
+    const script = scriptWithSpans([2, 0, 2, 0]);
+    const result = applyScriptOp(script, { type: 'mergePairDown', pairId: script.pairs[1].id });
+    expect(spansOf(result)).toEqual([2, 0, 1]);
+    expect(result.pairs[2].visual).toEqual(script.pairs[2].visual);
+  });
+});
+
+describe('ops anchored by pair id', () => {
+  it('a filler lands before its pair after rows above it changed', () => {
+    const script = scriptWithSpans([1, 1, 1]);
+    const target = script.pairs[2].id;
+    const edited = applyScriptOp(script, { type: 'deletePair', pairId: script.pairs[0].id });
+    const result = applyScriptOp(edited, { type: 'insertFiller', beforePairId: target });
+    expect(result.pairs[1].text.type).toBe('filler');
+    expect(result.pairs[2].id).toBe(target);
+  });
+
+  it('a span split applies to its pair after rows above it changed', () => {
+    const script = scriptWithSpans([1, 3, 0, 0]);
+    const target = script.pairs[3].id;
+    const edited = applyScriptOp(script, { type: 'insertFiller', beforePairId: script.pairs[0].id });
+    const result = applyScriptOp(edited, { type: 'splitVisualSpan', pairId: target });
+    expect(spansOf(result)).toEqual([1, 1, 2, 0, 1]);
+  });
+
+  it('ops on a pair that no longer exists do nothing', () => {
+    const script = scriptWithSpans([2, 0]);
+    expect(applyScriptOp(script, { type: 'insertFiller', beforePairId: 'gone' })).toBe(script);
+    expect(applyScriptOp(script, { type: 'splitVisualSpan', pairId: 'gone' })).toBe(script);
+  });
+});
@@ -0,0 +1,410 @@
+import type { Script, BubblePair, Bubble, ScriptOp } from '../types/script';
+import { generateId } from './ids';
+import { estimateDuration } from './timing';
+
+/** Where new pair and bubble ids come from */
+type IdSource = () => string;
+
+/** Ids reserved per pair-creating op: split makes two pairs of three ids each */
+const NEW_IDS_PER_OP = 6;
+
+export function createTextBubble(content: string, nextId: IdSource = generateId): Bubble {
+  return {
+    id: nextId(),
+    type: 'text',
+    content,
+    durationSeconds: Math.max(estimateDuration(content), 0.5),
+  };
+}
+
+export function createFillerBubble(duration = 1, nextId: IdSource = generateId): Bubble {
+  return {
+    id: nextId(),
+    type: 'filler',
+    content: '',
+    durationSeconds: duration,
+    manualDuration: true,
+  };
+}
+
+export function createVisualBubble(content: string, nextId: IdSource = generateId): Bubble {
+  return {
+    id: nextId(),
+    type: 'text',
+    content,
+    durationSeconds: 0,
+  };
+}
+
+export function createPair(text: string, visual: string, nextId: IdSource = generateId): BubblePair {
+  return {
+    id: nextId(),
+    text: createTextBubble(text, nextId),
+    visual: createVisualBubble(visual, nextId),
+  };
+}
+
+/**
+ * Reserve the ids a pair-creating op will hand out, so the op gives the same
+ * result wherever it's applied. Other ops are returned unchanged.
+ */
+export function withNewIds(op: ScriptOp): ScriptOp {
+  if ((op.type !== 'splitBubble' && op.type !== 'insertFiller') || op.newIds) return op;
+  return { ...op, newIds: Array.from({ length: NEW_IDS_PER_OP }, () => generateId()) };
+}
+
+/** The pair an op applies to — for `insertFiller`, the one the filler goes before */
+export function opPairId(op: ScriptOp): string {
+  return op.type === 'insertFiller' ? op.beforePairId : op.pairId;
+}
+
+/** Hands out an op's reserved ids in order, then falls back to fresh ones */
+function idSource(op: ScriptOp): IdSource {
+  const reserved = 'newIds' in op && op.newIds ? [...op.newIds] : [];
+  return () => reserved.shift() ?? generateId();
+}
+
+/** Normalize visualSpan: 1 → undefined (a plain single pair) */
+export function normalizeSpan(span: number): number | undefined {
+  return span === 1 ? undefined : span;
+}
+
+/** Walk up from a covered pair (visualSpan = 0) to the pair owning its visual span */
+export function findSpanOwner(pairs: BubblePair[], idx: number): number {
+  let ownerIdx = idx - 1;
+  while (ownerIdx > 0 && pairs[ownerIdx].visualSpan === 0) {
+    ownerIdx--;
+  }
+  return ownerIdx;
+}
+
+/** Apply `update` to the pair with `pairId` — returns the same script if not found */
+function updatePair(
+  script: Script,
+  pairId: string,
+  update: (pair: BubblePair) => BubblePair
+): Script {
+  const idx = script.pairs.findIndex((p) => p.id === pairId);
+  if (idx === -1) return script;
+  const pairs = [...script.pairs];
+  pairs[idx] = update(pairs[idx]);
+  return { ...script, pairs };
+}
+
+/**
+ * Split the visual span covering `atIndex` so that `atIndex` owns the rest of it.
+ * The owner keeps the rows above; the new owner starts with an empty visual.
+ */
+function splitSpanAt(pairs: BubblePair[], atIndex: number, nextId: IdSource = generateId): BubblePair[] {
+  const ownerIdx = findSpanOwner(pairs, atIndex);
+  const ownerSpan = pairs[ownerIdx].visualSpan ?? 1;
+  const spanBefore = atIndex - ownerIdx;
+  const spanAfter = ownerSpan - spanBefore;
+
+  return pairs.map((p, i) => {
+    if (i === ownerIdx) {
+      return { ...p, visualSpan: normalizeSpan(spanBefore) };
+    }
+    if (i === atIndex) {
+      return {
+        ...p,
+        visual: createVisualBubble('', nextId),
+        visualSpan: normalizeSpan(spanAfter),
+      };
+    }
+    return p;
+  });
+}
+
+/**
+ * Merge the pair at `upperIdx` with the one below it. Texts are joined; what
+ * happens to the visuals depends on the spans the two rows belong to:
+ * - same span (the lower row is covered): the span loses a row
+ * - two plain rows, or a plain row above a span: descriptions are joined and
+ *   the merged row owns the lower span
+ * - a covered row above another visual: the merged row stays in its span,
+ *   and the lower visual carries on from the next row (or, if it had no
+ *   other rows, its description joins the span's)
+ */
+function mergeRows(pairs: BubblePair[], upperIdx: number): BubblePair[] {
+  const upper = pairs[upperIdx];
+  const lower = pairs[upperIdx + 1];
+  const upperSpan = upper.visualSpan ?? 1;
+  const lowerSpan = lower.visualSpan ?? 1;
+  const result = [...pairs];
+
+  const mergedTextContent = [upper.text.content, lower.text.content]
+    .filter(Boolean)
+    .join('\n');
+  const text: Bubble = {
+    ...upper.text,
+    content: mergedTextContent,
+    durationSeconds: Math.max(estimateDuration(mergedTextContent), 0.5),
+    manualDuration: undefined,
+  };
+
+  let merged: BubblePair;
+  if (lowerSpan === 0) {
+    const ownerIdx = findSpanOwner(pairs, upperIdx + 1);
+    result[ownerIdx] = {
+      ...result[ownerIdx],
+      visualSpan: normalizeSpan((result[ownerIdx].visualSpan ?? 1) - 1),
+    };
+    merged = { ...result[upperIdx], text };
+  } else if (upperSpan !== 0) {
+    const mergedVisualContent = [upper.visual.content, lower.visual.content]
+      .filter(Boolean)
+      .join('\n');
+    merged = {
+      ...upper,
+      text,
+      visual: { ...upper.visual, content: mergedVisualContent },
+      visualSpan: normalizeSpan(lowerSpan),
+    };
+  } else {
+    if (lowerSpan > 1) {
+      result[upperIdx + 2] = {
+        ...result[upperIdx + 2],
+        visual: lower.visual,
+        visualSpan: normalizeSpan(lowerSpan - 1),
+      };
+    } else if (lower.visual.content) {
+      const ownerIdx = findSpanOwner(pairs, upperIdx);
+      const owner = result[ownerIdx];
+      result[ownerIdx] = {
+        ...owner,
+        visual: {
+          ...owner.visual,
+          content: [owner.visual.content, lower.visual.content].filter(Boolean).join('\n'),
+        },
+      };
+    }
+    merged = { ...upper, text };
+  }
+
+  result.splice(upperIdx, 2, merged);
+  return result;
+}
+
+/**
+ * Merge the visual group starting at `ownerIdx` with the group right below
+ * it, into the upper one. Returns `pairs` unchanged when there's no group below.
+ */
+function mergeVisualGroups(pairs: BubblePair[], ownerIdx: number): BubblePair[] {
+  const owner = pairs[ownerIdx];
+  const ownerSpan = owner.visualSpan ?? 1;
+  const nextIdx = ownerIdx + ownerSpan;
+  if (nextIdx >= pairs.length) return pairs;
+  const next = pairs[nextIdx];
+
+  const mergedVisualContent = [owner.visual.content, next.visual.content]
+    .filter(Boolean)
+    .join('\n');
+
+  return pairs.map((p, i) => {
+    if (i === ownerIdx) {
+      return {
+        ...p,
+        visual: { ...p.visual, content: mergedVisualContent },
+        visualSpan: ownerSpan + (next.visualSpan ?? 1),
+      };
+    }
+    if (i === nextIdx) {
+      return { ...p, visualSpan: 0 };
+    }
+    return p;
+  });
+}
+
+/** Index of the pair owning the visual shown at `idx` (itself unless it's covered) */
+function visualOwnerOf(pairs: BubblePair[], idx: number): number {
+  return pairs[idx].visualSpan === 0 ? findSpanOwner(pairs, idx) : idx;
+}
+
+/**
+ * Apply a single operation to a script, returning the new script.
+ *
+ * Pure: never mutates `script`, and returns the very same object when the
+ * operation doesn't apply (unknown pair id, out-of-range index...), so
+ * callers can cheaply detect no-ops.
+ */
+export function applyScriptOp(script: Script, op: ScriptOp): Script {
+  switch (op.type) {
+    // Content-only update (no duration recalculation) — called on every keystroke
+    case 'updatePairText':
+      return updatePair(script, op.pairId, (p) => ({
+        ...p,
+        text: { ...p.text, content: op.content },
+      }));
+
+    // Recalculate duration from current content — called on blur
+    case 'commitPairText': {
+      const pair = script.pairs.find((p) => p.id === op.pairId);
+      if (!pair || pair.text.manualDuration) return script;
+      const durationSeconds = Math.max(estimateDuration(pair.text.content), 0.5);
+      if (pair.text.durationSeconds === durationSeconds) return script;
+      return updatePair(script, op.pairId, (p) => ({
+        ...p,
+        text: { ...p.text, durationSeconds },
+      }));
+    }
+
+    case 'updatePairVisual':
+      return updatePair(script, op.pairId, (p) => ({
+        ...p,
+        visual: { ...p.visual, content: op.content },
+      }));
+
+    case 'updateBubbleImage':
+      return updatePair(script, op.pairId, (p) => ({
+        ...p,
+        visual: { ...p.visual, imageId: op.imageId },
+      }));
+
+    case 'updateBubbleDuration':
+      return updatePair(script, op.pairId, (p) => {
+        // Enforce 1s minimum for fillers
+        const min = p.text.type === 'filler' && op.side === 'text' ? 1 : 0.5;
+        return {
+          ...p,
+          [op.side]: {
+            ...p[op.side],
+            durationSeconds: Math.max(min, op.durationSeconds),
+            manualDuration: true,
+          },
+        };
+      });
+
+    case 'splitBubble': {
+      const idx = script.pairs.findIndex((p) => p.id === op.pairId);
+      if (idx === -1) return script;
+
+      const pair = script.pairs[idx];
+      const textBefore = pair.text.content.slice(0, op.charOffset).trim();
+      const textAfter = pair.text.content.slice(op.charOffset).trim();
+
+      // Need at least some text before the split point
+      if (!textBefore) return script;
+
+      const ratio = pair.text.content.length > 0
+        ? op.charOffset / pair.text.content.length
+        : 1;
+      const visualSplitPos = Math.round(pair.visual.content.length * ratio);
+      const visualBefore = pair.visual.content.slice(0, visualSplitPos).trim();
+      const visualAfter = pair.visual.content.slice(visualSplitPos).trim();
+
+      const nextId = idSource(op);
+      const newPair1 = createPair(textBefore, visualBefore || pair.visual.content, nextId);
+      const newPair2 = createPair(textAfter, visualAfter || '', nextId);
+
+      const newPairs = [...script.pairs];
+      const span = pair.visualSpan ?? 1;
+      if (span === 1) {
+        newPairs.splice(idx, 1, newPair1, newPair2);
+      } else {
+        // Inside a visual span both halves stay in it, so the span grows by a row
+        const ownerIdx = span === 0 ? findSpanOwner(script.pairs, idx) : idx;
+        newPairs[ownerIdx] = { ...newPairs[ownerIdx], visualSpan: (newPairs[ownerIdx].visualSpan ?? 1) + 1 };
+        newPairs.splice(
+          idx,
+          1,
+          { ...newPair1, visual: pair.visual, visualSpan: newPairs[idx].visualSpan },
+          { ...newPair2, visualSpan: 0 }
+        );
+      }
+
+      return { ...script, pairs: newPairs };
+    }
+
+    case 'insertFiller': {
+      const idx = script.pairs.findIndex((p) => p.id === op.beforePairId);
+      if (idx === -1) return script;
+
+      const nextId = idSource(op);
+      const fillerPair: BubblePair = {
+        id: nextId(),
+        text: createFillerBubble(1, nextId),
+        visual: createVisualBubble('', nextId),
+      };
+
+      // Inserting inside a visual span splits it around the filler
+      const newPairs = script.pairs[idx].visualSpan === 0
+        ? splitSpanAt(script.pairs, idx, nextId)
+        : [...script.pairs];
+
+      newPairs.splice(idx, 0, fillerPair);
+      return { ...script, pairs: newPairs };
+    }
+
+    case 'deletePair': {
+      const idx = script.pairs.findIndex((p) => p.id === op.pairId);
+      // A script always keeps at least one pair
+      if (idx === -1 || script.pairs.length === 1) return script;
+
+      const pair = script.pairs[idx];
+      const span = pair.visualSpan ?? 1;
+      const newPairs = [...script.pairs];
+
+      if (span === 0) {
+        // Covered pair — the owner's span shrinks by one
+        const ownerIdx = findSpanOwner(script.pairs, idx);
+        newPairs[ownerIdx] = {
+          ...newPairs[ownerIdx],
+          visualSpan: normalizeSpan((newPairs[ownerIdx].visualSpan ?? 1) - 1),
+        };
+      } else if (span > 1) {
+        // Span owner — the next pair takes over the visual for the rest of the span
+        newPairs[idx + 1] = {
+          ...newPairs[idx + 1],
+          visual: pair.visual,
+          visualSpan: normalizeSpan(span - 1),
+        };
+      }
+
+      newPairs.splice(idx, 1);
+      return { ...script, pairs: newPairs };
+    }
+
+    case 'mergePairUp': {
+      const idx = script.pairs.findIndex((p) => p.id === op.pairId);
+      if (idx <= 0) return script;
+
+      return { ...script, pairs: mergeRows(script.pairs, idx - 1) };
+    }
+
+    case 'mergePairDown': {
+      const idx = script.pairs.findIndex((p) => p.id === op.pairId);
+      if (idx === -1 || idx >= script.pairs.length - 1) return script;
+
+      return { ...script, pairs: mergeRows(script.pairs, idx) };
+    }
+
+    // Visual merges act on the whole group a pair's visual belongs to
+    case 'mergeVisualUp': {
+      const idx = script.pairs.findIndex((p) => p.id === op.pairId);
+      if (idx === -1) return script;
+      const groupIdx = visualOwnerOf(script.pairs, idx);
+      if (groupIdx === 0) return script;
+      const pairs = mergeVisualGroups(script.pairs, visualOwnerOf(script.pairs, groupIdx - 1));
+      return pairs === script.pairs ? script : { ...script, pairs };
+    }
+
+    case 'mergeVisualDown': {
+      const idx = script.pairs.findIndex((p) => p.id === op.pairId);
+      if (idx === -1) return script;
+      const pairs = mergeVisualGroups(script.pairs, visualOwnerOf(script.pairs, idx));
+      return pairs === script.pairs ? script : { ...script, pairs };
+    }
+
+    case 'splitVisualSpan': {
+      const idx = script.pairs.findIndex((p) => p.id === op.pairId);
+      if (idx === -1 || script.pairs[idx].visualSpan !== 0) return script;
+      return { ...script, pairs: splitSpanAt(script.pairs, idx) };
+    }
+  }
+}
+
+/** Apply a sequence of operations in order */
+export function applyScriptOps(script: Script, ops: ScriptOp[]): Script {
+  return ops.reduce(applyScriptOp, script);
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import type { Script } from '../types/script';
+import { applyScriptOp, createPair, withNewIds } from './scriptOps';
+import { suggestionApplies } from './suggestions';
+
+function scriptOf(count: number): Script {
+  return {
+    title: 'Suggestions',
+    totalDurationSeconds: 60,
+    pairs: Array.from({ length: count }, (_, i) => createPair(`Line ${i} has a few words`, '')),
+  };
+}
+
+describe('suggestionApplies', () => {
+  it('applies while its pairs are still there, wherever they moved', () => {
+    const script = scriptOf(3);
+    const ops = [{ type: 'insertFiller' as const, beforePairId: script.pairs[2].id }];
+    const edited = applyScriptOp(script, { type: 'deletePair', pairId: script.pairs[0].id });
+    expect(suggestionApplies(edited, ops)).toBe(true);
+  });
+
+  it('no longer applies once a pair it changes is gone', () => {
+    const script = scriptOf(3);
+    const ops = [{ type: 'insertFiller' as const, beforePairId: script.pairs[1].id }];
+    const edited = applyScriptOp(script, { type: 'deletePair', pairId: script.pairs[1].id });
+    expect(suggestionApplies(edited, ops)).toBe(false);
+  });
+
+  it('counts pairs made by its own earlier ops', () => {
+    const script = scriptOf(1);
+    const split = withNewIds({ type: 'splitBubble', pairId: script.pairs[0].id, charOffset: 7 });
+    const secondHalf = applyScriptOp(script, split).pairs[1].id;
+    expect(suggestionApplies(script, [split, { type: 'deletePair', pairId: secondHalf }])).toBe(true);
+  });
+});
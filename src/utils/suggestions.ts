@@ -0,0 +1,149 @@
+import type { Script, ScriptOp } from '../types/script';
+import { applyScriptOp, opPairId } from './scriptOps';
+import { diffWords } from './diffScripts';
+import type { WordDiffPart } from './diffScripts';
+
+/** A pending suggestion, as listed by the server */
+export interface PendingSuggestion {
+  _id: string;
+  authorName: string;
+  ops: ScriptOp[];
+  /** The script changed so that the suggestion no longer applies */
+  stale: boolean;
+  canAccept: boolean;
+  canReject: boolean;
+}
+
+/** A pending suggestion as shown in one bubble */
+export interface SuggestionMark {
+  id: string;
+  authorName: string;
+  /** Word diff of the bubble's content, when the suggestion changes it */
+  diff?: WordDiffPart[];
+  /** Changes other than content edits — splits, merges, durations... */
+  notes: string[];
+  canAccept: boolean;
+  canReject: boolean;
+}
+
+/**
+ * Add an op to a suggestion being drafted. Like the outbox, a run of
+ * keystrokes in one field keeps only its last op — and so does a run of
+ * duration drags on one bubble.
+ */
+export function appendDraftOp(ops: ScriptOp[], op: ScriptOp): ScriptOp[] {
+  const last = ops[ops.length - 1];
+  const sameField =
+    last &&
+    (op.type === 'updatePairText' || op.type === 'updatePairVisual' || op.type === 'updateBubbleDuration') &&
+    last.type === op.type &&
+    last.pairId === op.pairId &&
+    (op.type !== 'updateBubbleDuration' || (last.type === 'updateBubbleDuration' && last.side === op.side));
+  return sameField ? [...ops.slice(0, -1), op] : [...ops, op];
+}
+
+/**
+ * Whether a suggestion's ops still apply to the script: every op's pair must
+ * be there when its turn comes (pairs made by earlier ops count). Otherwise
+ * a filler or a span split would land somewhere the author never meant.
+ */
+export function suggestionApplies(script: Script, ops: ScriptOp[]): boolean {
+  let current = script;
+  for (const op of ops) {
+    const pairId = opPairId(op);
+    if (!current.pairs.some((pair) => pair.id === pairId)) return false;
+    current = applyScriptOp(current, op);
+  }
+  return true;
+}
+
+/** What an op does, for ops that aren't content edits */
+function describeOp(script: Script, op: ScriptOp): string | null {
+  switch (op.type) {
+    case 'updatePairText':
+    case 'updatePairVisual':
+    case 'commitPairText':
+      return null;
+    case 'updateBubbleDuration': {
+      const pair = script.pairs.find((p) => p.id === op.pairId);
+      const before = pair ? `${pair[op.side].durationSeconds.toFixed(1)}s → ` : '';
+      return `${op.side === 'text' ? 'Voice' : 'Visual'} duration ${before}${op.durationSeconds.toFixed(1)}s`;
+    }
+    case 'updateBubbleImage':
+      return op.imageId ? 'Replace the image' : 'Remove the image';
+    case 'splitBubble':
+      return 'Split this segment in two';
+    case 'insertFiller':
+      return 'Insert a pause before this segment';
+    case 'deletePair':
+      return 'Remove this segment';
+    case 'mergePairUp':
+      return 'Merge with the segment above';
+    case 'mergePairDown':
+      return 'Merge with the segment below';
+    case 'mergeVisualUp':
+      return 'Merge the visual with the one above';
+    case 'mergeVisualDown':
+      return 'Merge the visual with the one below';
+    case 'splitVisualSpan':
+      return 'Split the shared visual here';
+  }
+}
+
+/**
+ * Where each pending suggestion shows up, keyed by bubble id: content edits
+ * as a word diff in the edited bubble, everything else as notes on the voice
+ * bubble of the pair it applies to. Diffs are against the current script, so
+ * they show exactly what accepting would change.
+ */
+export function suggestionMarks(script: Script, suggestions: PendingSuggestion[]): Map<string, SuggestionMark[]> {
+  const marks = new Map<string, SuggestionMark[]>();
+  const byPair = new Map(script.pairs.map((pair) => [pair.id, pair]));
+
+  for (const suggestion of suggestions) {
+    // Its pairs are gone — nowhere to show it
+    if (suggestion.stale) continue;
+    const bubbleMarks = new Map<string, SuggestionMark>();
+    const markFor = (bubbleId: string) => {
+      let mark = bubbleMarks.get(bubbleId);
+      if (!mark) {
+        mark = {
+          id: suggestion._id,
+          authorName: suggestion.authorName,
+          notes: [],
+          canAccept: suggestion.canAccept,
+          canReject: suggestion.canReject,
+        };
+        bubbleMarks.set(bubbleId, mark);
+      }
+      return mark;
+    };
+
+    // Applied op by op, so an edit followed by a split still shows its diff
+    let current = script;
+    for (const op of suggestion.ops) {
+      const before = current;
+      current = applyScriptOp(current, op);
+      if (op.type === 'updatePairText' || op.type === 'updatePairVisual') {
+        const side = op.type === 'updatePairText' ? 'text' : 'visual';
+        const original = byPair.get(op.pairId);
+        const changed = current.pairs.find((pair) => pair.id === op.pairId);
+        if (!original || !changed) continue;
+        // Typed and then undone: nothing left to show
+        markFor(original[side].id).diff = original[side].content === changed[side].content
+          ? undefined
+          : diffWords(original[side].content, changed[side].content);
+        continue;
+      }
+      const note = describeOp(before, op);
+      const pair = byPair.get(opPairId(op));
+      if (note && pair) markFor(pair.text.id).notes.push(note);
+    }
+
+    bubbleMarks.forEach((mark, bubbleId) => {
+      if (!mark.diff && mark.notes.length === 0) return;
+      marks.set(bubbleId, [...(marks.get(bubbleId) ?? []), mark]);
+    });
+  }
+  return marks;
+}
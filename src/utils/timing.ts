@@ -1,3 +1,5 @@
+import type { BubblePair } from '../types/script';
+
 /** Average speaking rate for educational/tutorial content (words per minute) */
 const WORDS_PER_MINUTE = 150;
 
@@ -14,6 +16,22 @@ export function estimateDuration(text: string): number {
   return (words / WORDS_PER_MINUTE) * 60;
 }
 
+/** Start time (seconds) of each pair — the running sum of text durations */
+export function getCumulativeTimes(pairs: BubblePair[]): number[] {
+  const times: number[] = [];
+  let runningTime = 0;
+  for (const pair of pairs) {
+    times.push(runningTime);
+    runningTime += pair.text.durationSeconds;
+  }
+  return times;
+}
+
+/** Total spoken runtime (seconds) — the sum of text durations */
+export function getRuntime(pairs: BubblePair[]): number {
+  return pairs.reduce((sum, p) => sum + p.text.durationSeconds, 0);
+}
+
 /** Format seconds as M:SS */
 export function formatTime(seconds: number): string {
   const m = Math.floor(seconds / 60);
@@ -23,3 +41,33 @@ export function formatTime(seconds: number): string {
 
 /** Minimum bubble height in pixels (so empty/tiny bubbles are still visible) */
 export const MIN_BUBBLE_PX = 48;
+
+/**
+ * Min-height (px) of a pair's timeline row: proportional for fillers, small
+ * fixed for text pairs. `pxPerSecond` is the view height over the total duration.
+ */
+export function pairMinHeight(pair: BubblePair, pxPerSecond: number): number {
+  if (pair.text.type === 'filler') {
+    return Math.max(28, pair.text.durationSeconds * Math.max(pxPerSecond, 30));
+  }
+  return MIN_BUBBLE_PX;
+}
+
+/**
+ * Grid row template for pairs of the given min-heights: a separator row
+ * (`gapPx`) before each content row, so pair i's content sits in row 2*i + 2.
+ */
+export function pairGridRows(minHeights: number[], gapPx: number): string {
+  return minHeights.map((h) => `${gapPx}px minmax(${h}px, auto)`).join(' ');
+}
+
+/** Index of the pair being spoken at `time` (seconds), or -1 past the end */
+export function pairIndexAt(pairs: BubblePair[], time: number): number {
+  let start = 0;
+  for (let i = 0; i < pairs.length; i++) {
+    const end = start + pairs[i].text.durationSeconds;
+    if (time < end) return i;
+    start = end;
+  }
+  return -1;
+}
@@ -0,0 +1,128 @@
+import type { Script, BubblePair } from '../types/script';
+import { generateId } from './ids';
+import { estimateDuration } from './timing';
+import { createPair, normalizeSpan } from './scriptOps';
+
+export type ScriptIssueKind =
+  | 'noPairs'
+  | 'duplicateId'
+  | 'invalidDuration'
+  | 'invalidSpan'
+  | 'orphanedCover'
+  | 'spanOverflow'
+  | 'spanInterrupted'
+  | 'unnormalizedSpan';
+
+export interface ScriptIssue {
+  kind: ScriptIssueKind;
+  /** Index of the affected pair (-1 for script-level issues) */
+  pairIndex: number;
+  pairId?: string;
+  /** Human-readable description of the problem and how it was repaired */
+  message: string;
+}
+
+/** Check a script for structural problems without changing it */
+export function validateScript(script: Script): ScriptIssue[] {
+  return repairScript(script).issues;
+}
+
+/**
+ * Detect and deterministically repair structural problems in a script.
+ *
+ * visualSpan invariants enforced:
+ * - a covered pair (visualSpan = 0) always sits inside an owner's span
+ * - an owner spanning N pairs is followed by exactly N-1 covered pairs
+ * - no span runs past the end of `pairs`
+ * - 1 is always stored as undefined
+ *
+ * Returns the same script object when nothing needed fixing.
+ */
+export function repairScript(script: Script): { script: Script; issues: ScriptIssue[] } {
+  const issues: ScriptIssue[] = [];
+  const report = (kind: ScriptIssueKind, pairIndex: number, message: string, pair?: BubblePair) => {
+    issues.push({ kind, pairIndex, pairId: pair?.id, message });
+  };
+
+  if (!Array.isArray(script.pairs) || script.pairs.length === 0) {
+    report('noPairs', -1, 'Script has no pairs — added an empty pair');
+    return { script: { ...script, pairs: [createPair('', '')] }, issues };
+  }
+
+  const pairs = [...script.pairs];
+  const seenIds = new Set<string>();
+
+  // Owner of the span currently being walked, and how many covered rows it still expects
+  let ownerIdx = -1;
+  let remaining = 0;
+
+  for (let i = 0; i < pairs.length; i++) {
+    let pair = pairs[i];
+
+    if (seenIds.has(pair.id)) {
+      report('duplicateId', i, `Duplicate pair id "${pair.id}" — assigned a new id`, pair);
+      pair = { ...pair, id: generateId() };
+    }
+    seenIds.add(pair.id);
+
+    if (!Number.isFinite(pair.text.durationSeconds) || pair.text.durationSeconds < 0) {
+      report('invalidDuration', i, `Invalid duration ${pair.text.durationSeconds} — recalculated from text`, pair);
+      pair = {
+        ...pair,
+        text: {
+          ...pair.text,
+          durationSeconds: pair.text.type === 'filler' ? 1 : Math.max(estimateDuration(pair.text.content), 0.5),
+        },
+      };
+    }
+
+    let span = pair.visualSpan;
+    if (span !== undefined && (!Number.isInteger(span) || span < 0)) {
+      report('invalidSpan', i, `Invalid visualSpan ${span} — reset to a single pair`, pair);
+      span = undefined;
+    }
+
+    if (span === 0) {
+      if (remaining > 0) {
+        remaining--;
+      } else {
+        report('orphanedCover', i, 'Covered visual with no span owner above — made standalone', pair);
+        span = undefined;
+      }
+    } else {
+      if (remaining > 0) {
+        // A new owner (or plain pair) appears before the previous span ended
+        const covered = i - ownerIdx;
+        report(
+          'spanInterrupted',
+          ownerIdx,
+          `visualSpan ${pairs[ownerIdx].visualSpan} interrupted after ${covered} pair${covered === 1 ? '' : 's'} — shortened`,
+          pairs[ownerIdx]
+        );
+        pairs[ownerIdx] = { ...pairs[ownerIdx], visualSpan: normalizeSpan(covered) };
+        remaining = 0;
+      }
+
+      let length = span ?? 1;
+      if (span === 1) {
+        report('unnormalizedSpan', i, 'visualSpan 1 normalized to undefined', pair);
+      }
+      if (i + length > pairs.length) {
+        const clamped = pairs.length - i;
+        report('spanOverflow', i, `visualSpan ${length} runs past the end of the script — clamped to ${clamped}`, pair);
+        length = clamped;
+      }
+      span = normalizeSpan(length);
+      ownerIdx = i;
+      remaining = length - 1;
+    }
+
+    if (span !== pair.visualSpan) {
+      pair = { ...pair, visualSpan: span };
+    }
+    pairs[i] = pair;
+  }
+
+  if (issues.length === 0) return { script, issues };
+  return { script: { ...script, pairs }, issues };
+}